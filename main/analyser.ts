@@ -10,14 +10,19 @@ export class Analyser {
   private bufferLength = 0;
   private dataArray: Uint8Array;
 
-  constructor(node: AudioNode) {
+  constructor(private node: AudioNode, fftSize = 32) {
     this.analyser = node.context.createAnalyser();
-    this.analyser.fftSize = 32;
+    this.analyser.fftSize = fftSize;
     this.bufferLength = this.analyser.frequencyBinCount;
     this.dataArray = new Uint8Array(this.bufferLength);
     node.connect(this.analyser);
   }
 
+  /** Detach from the source node. */
+  disconnect() {
+    try { this.node.disconnect(this.analyser); } catch {}
+  }
+
   update() {
     this.analyser.getByteFrequencyData(this.dataArray);
   }
@@ -25,4 +30,9 @@ export class Analyser {
   get data() {
     return this.dataArray;
   }
+
+  /** Width of one frequency bin in Hz. */
+  get binHz() {
+    return this.analyser.context.sampleRate / this.analyser.fftSize;
+  }
 }
@@ -0,0 +1,78 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/**
+ * Audio-driven lip sync for sources without viseme events (Gemini audio,
+ * pre-recorded clips, ...). Taps a node through Analyser and, once per
+ * animation frame, estimates mouth openness from energy and a rough vowel
+ * shape from three spectral bands:
+ *   low  150–900 Hz  (F1: jaw opening)
+ *   mid  900–2300 Hz (F2: spread vs. rounded lips)
+ *   high 2300–6000 Hz (fricatives: s, sh, f)
+ */
+import { Analyser } from './analyser.ts';
+
+export interface LipSyncFrame {
+  openness: number;   // 0 (closed) .. 1 (wide open)
+  visemeId: number;   // Azure viseme id approximating the shape
+}
+
+const FFT_SIZE = 512;
+const GATE = 0.3;       // byte-scaled band level below which the mouth is closed
+const RANGE = 0.45;     // level above the gate that maps to fully open
+
+export class AudioLipSync {
+  private analyser: Analyser;
+  private raf = 0;
+  private open = 0;
+
+  constructor(node: AudioNode, private onFrame: (f: LipSyncFrame) => void) {
+    this.analyser = new Analyser(node, FFT_SIZE);
+  }
+
+  start() {
+    if (this.raf) return;
+    const loop = () => {
+      this.analyser.update();
+      this.onFrame(this.estimate(this.analyser.data, this.analyser.binHz));
+      this.raf = requestAnimationFrame(loop);
+    };
+    this.raf = requestAnimationFrame(loop);
+  }
+
+  stop() {
+    if (this.raf) cancelAnimationFrame(this.raf);
+    this.raf = 0;
+    this.open = 0;
+    this.analyser.disconnect();
+  }
+
+  private estimate(bins: Uint8Array, binHz: number): LipSyncFrame {
+    const band = (lo: number, hi: number) => {
+      const a = Math.max(1, Math.floor(lo / binHz));
+      const b = Math.min(bins.length - 1, Math.ceil(hi / binHz));
+      let sum = 0;
+      for (let i = a; i <= b; i++) sum += bins[i];
+      return sum / ((b - a + 1) * 255);
+    };
+    const low = band(150, 900);
+    const mid = band(900, 2300);
+    const high = band(2300, 6000);
+
+    // Openness: fast attack, slower release so syllables don't flicker
+    const target = Math.max(0, Math.min(1, (Math.max(low, mid) - GATE) / RANGE));
+    this.open += (target - this.open) * (target > this.open ? 0.6 : 0.3);
+    const open = this.open;
+
+    return { openness: open, visemeId: this.shape(open, low, mid, high) };
+  }
+
+  private shape(open: number, low: number, mid: number, high: number): number {
+    if (open < 0.08) return high > GATE ? 15 : 0;        // s/z hiss, else silence
+    if (high > Math.max(low, mid) * 1.1) return 15;      // fricative
+    if (low > mid * 1.35) return open < 0.4 ? 7 : 8;     // rounded: u / o
+    if (mid > low * 0.9) return open < 0.5 ? 6 : 4;      // spread: i / e
+    return open > 0.6 ? 2 : 1;                           // open: a / schwa
+  }
+}
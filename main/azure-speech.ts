@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/**
+ * Azure Speech provider: raw 24 kHz PCM via a push stream (fresh synthesizer
+ * per utterance), visemes and word boundaries from the SDK events. Speaks SSML
+ * when the request has it (per-language voice switching).
+ * Needs the browser SDK bundle loaded in index.html (global `SpeechSDK`).
+ */
+import type { SpeechEvents, SpeechProvider, SpeechRequest, SpeechUtterance } from './speech-provider.ts';
+
+declare global { interface Window { SpeechSDK: any } }
+
+export interface AzureCredentials { key: string; region: string }
+
+const TICKS_PER_MS = 10000; // SDK offsets are 100 ns ticks
+
+export class AzureSpeechProvider implements SpeechProvider {
+  readonly name = 'Azure';
+  readonly sampleRate = 24000;
+  readonly supportsSsml = true;
+
+  constructor(private credentials: () => AzureCredentials) {}
+
+  unavailableReason() {
+    if (!window.SpeechSDK) return 'Azure Speech SDK not loaded';
+    const { key, region } = this.credentials();
+    if (!key || !region) return 'Enter Azure key & region';
+    return '';
+  }
+
+  speak(req: SpeechRequest, events: SpeechEvents): SpeechUtterance {
+    const SDK = window.SpeechSDK;
+    const { key, region } = this.credentials();
+
+    // 1) Config voice; ask for raw 24 kHz PCM (property, not setter)
+    const speechConfig = SDK.SpeechConfig.fromSubscription(key, region);
+    if (req.voice) speechConfig.speechSynthesisVoiceName = req.voice;
+    if (SDK.SpeechSynthesisOutputFormat?.Raw24Khz16BitMonoPcm !== undefined) {
+      speechConfig.speechSynthesisOutputFormat = SDK.SpeechSynthesisOutputFormat.Raw24Khz16BitMonoPcm;
+    }
+
+    // 2) Push stream + synthesizer for THIS utterance
+    let cancelled = false;
+    let started = false;
+    const push = SDK.PushAudioOutputStream.create({
+      write: (dataBuffer: ArrayBuffer) => {
+        if (cancelled) return dataBuffer.byteLength;
+        if (!started) { started = true; events.onStart?.(); }
+        events.onAudio?.(dataBuffer);
+        return dataBuffer.byteLength;
+      },
+      close: () => {}
+    });
+    const audioConfig = SDK.AudioConfig.fromStreamOutput(push);
+    const synth = new SDK.SpeechSynthesizer(speechConfig, audioConfig);
+    const close = () => { try { synth.close(); } catch {} };
+
+    // 3) Timed events (offsets relative to the first audio sample)
+    synth.visemeReceived = (_: any, e: any) => {
+      if (!cancelled) events.onViseme?.({ offsetMs: e.audioOffset / TICKS_PER_MS, id: e.visemeId });
+    };
+    synth.wordBoundary = (_: any, e: any) => {
+      if (cancelled) return;
+      events.onWordBoundary?.({
+        offsetMs: e.audioOffset / TICKS_PER_MS,
+        durationMs: (e.duration ?? 0) / TICKS_PER_MS,
+        text: e.text ?? '',
+      });
+    };
+    synth.synthesisCompleted = () => { if (!cancelled) events.onEnd?.(); close(); };
+
+    const onError = (err: any) => { console.error(err); if (!cancelled) events.onError?.(String(err)); close(); };
+    // Bad key/region, unknown voice or rejected SSML: a "successful" call with a cancelled result
+    const onResult = (result: any) => {
+      if (result?.reason === SDK.ResultReason?.Canceled) onError(result.errorDetails || 'Synthesis canceled');
+    };
+    if (req.ssml) synth.speakSsmlAsync(req.ssml, onResult, onError);
+    else synth.speakTextAsync(req.text, onResult, onError);
+
+    return { cancel: () => { cancelled = true; close(); } };
+  }
+}
@@ -1,13 +1,13 @@
 /**
- * Minimal Azure TTS -> viseme scheduler (browser)
+ * Minimal Azure TTS -> viseme timeline (browser), sharing GdmLiveAudio's player/timeline
  * Paste your key/region at runtime; do NOT commit secrets.
  */
 import { LitElement, css, html } from 'lit';
 import { customElement, state } from 'lit/decorators.js';
-
-declare global {
-  interface Window { SpeechSDK: any }
-}
+import { AzureSpeechProvider } from './azure-speech.ts';
+import type { SpeechUtterance } from './speech-provider.ts';
+import { PcmaPlayer } from './pcm-player.ts';
+import { VisemeTimeline } from './viseme-timeline.ts';
 
 @customElement('azure-viseme-test')
 export class AzureVisemeTest extends LitElement {
@@ -23,70 +23,54 @@ export class AzureVisemeTest extends LitElement {
   `;
 
   @state() private speaking = false;
-  private synth?: any;
+  private provider = new AzureSpeechProvider(() => ({
+    key:    this.field<HTMLInputElement>('#azKey').value.trim(),
+    region: this.field<HTMLInputElement>('#azRegion').value.trim(),
+  }));
+  private utterance?: SpeechUtterance;
+  private player?: PcmaPlayer;
+  private timeline = new VisemeTimeline((id) => this.mascot?.setViseme?.(id));
 
   private get mascot(): any {
     return (this.getRootNode() as Document | ShadowRoot)
       .querySelector('gdm-live-audio-visuals-mascot') as any;
   }
 
+  private field<T extends HTMLElement>(sel: string) {
+    return this.renderRoot.querySelector(sel) as T;
+  }
+
   private speak = async () => {
-    const SpeechSDK = window.SpeechSDK;
-    if (!SpeechSDK) {
-      alert('Azure Speech SDK not loaded');
-      return;
-    }
-    const key    = (this.renderRoot.querySelector('#azKey')    as HTMLInputElement).value.trim();
-    const region = (this.renderRoot.querySelector('#azRegion') as HTMLInputElement).value.trim();
-    const text   = (this.renderRoot.querySelector('#azText')   as HTMLTextAreaElement).value.trim();
-    const voice  = (this.renderRoot.querySelector('#azVoice')  as HTMLSelectElement).value;
+    const text  = this.field<HTMLTextAreaElement>('#azText').value.trim();
+    const voice = this.field<HTMLSelectElement>('#azVoice').value;
 
-    if (!key || !region || !text) {
-      alert('Please fill Key, Region, and Text.'); return;
+    const reason = this.provider.unavailableReason();
+    if (reason || !text) {
+      alert(reason || 'Please fill Key, Region, and Text.'); return;
     }
 
-    const speechConfig = SpeechSDK.SpeechConfig.fromSubscription(key, region);
-    speechConfig.speechSynthesisVoiceName = voice;
-
-    // Play to system speakers (browser only). :contentReference[oaicite:5]{index=5}
-    const audioConfig = SpeechSDK.AudioConfig.fromDefaultSpeakerOutput();
-    this.synth = new SpeechSDK.SpeechSynthesizer(speechConfig, audioConfig);
-
-    // Align mouth timing to audio using audioOffset ticks (100ns). :contentReference[oaicite:6]{index=6}
-    let t0 = 0; // wall clock when audio actually starts flowing
+    this.stop();
     this.speaking = true;
+    const player = this.player = new PcmaPlayer(this.provider.sampleRate);
 
-    this.synth.synthesisStarted = () => { t0 = performance.now(); };
-
-    this.synth.visemeReceived = (_sender: any, e: any) => {
-      const offsetMs = e.audioOffset / 10000; // ticks -> ms (100ns)  :contentReference[oaicite:7]{index=7}
-      const eta = Math.max(0, t0 ? (offsetMs - (performance.now() - t0)) : 0);
-      // Schedule so the viseme lands when the sound reaches speakers.
-      setTimeout(() => this.mascot?.setViseme?.(e.visemeId), eta);
-    };
-
-    this.synth.synthesisCompleted = () => {
-      this.speaking = false;
-      this.synth?.close();
-      this.synth = undefined;
+    // Align mouth timing to audio: viseme offsets are measured from the first
+    // sample, which the player schedules on its AudioContext clock.
+    this.utterance = this.provider.speak({ text, voice }, {
+      onAudio: (chunk) => {
+        player.writePcm16(chunk);
+        if (!this.timeline.started) this.timeline.start(() => player.now, player.startTime);
+      },
+      onViseme: ({ offsetMs, id }) => this.timeline.add(offsetMs, id),
       // Reset to "closed" after a short beat
-      setTimeout(() => this.mascot?.setViseme?.(0), 120);
-    };
-
-    this.synth.speakTextAsync(
-      text,
-      () => {}, // handled in synthesisCompleted
-      (err: any) => {
-        console.error(err);
-        this.speaking = false;
-        this.synth?.close();
-        this.synth = undefined;
-      }
-    );
+      onEnd: () => { this.speaking = false; this.timeline.close(120); },
+      onError: (err) => { console.error(err); this.speaking = false; },
+    });
   };
 
   private stop = () => {
-    this.synth?.close?.();
+    this.utterance?.cancel(); this.utterance = undefined;
+    this.player?.close();     this.player = undefined;
+    this.timeline.clear();
     this.speaking = false;
     this.mascot?.setViseme?.(0);
   };
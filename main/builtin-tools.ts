@@ -0,0 +1,128 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/**
+ * Built-in tools for Alfred: local time, a calculator, mascot expression and
+ * event info (schedule, room directions, FAQ) from /event/event-data.json.
+ * Replace that file with the real event's data; no rebuild needed.
+ */
+import type { ToolDefinition } from './tools.ts';
+import { EXPRESSIONS } from './expression.ts';
+
+export const EVENT_DATA_URL = '/event/event-data.json';
+
+export interface BuiltinToolHost {
+  setExpression(name: string, intensity: number): void;
+}
+
+export function createBuiltinTools(host: BuiltinToolHost): ToolDefinition<any>[] {
+  return [
+    {
+      name: 'get_local_time',
+      description: 'Current local date and time at the kiosk (or in the given IANA time zone).',
+      parameters: {
+        type: 'object',
+        properties: { timeZone: { type: 'string', description: 'IANA time zone, e.g. "Asia/Dubai". Omit for kiosk local time.' } },
+      },
+      run: ({ timeZone }: { timeZone?: string }) => {
+        const now = new Date();
+        const fmt = new Intl.DateTimeFormat(undefined, { dateStyle: 'full', timeStyle: 'short', timeZone });
+        return { iso: now.toISOString(), local: fmt.format(now), timeZone: fmt.resolvedOptions().timeZone };
+      },
+    },
+    {
+      name: 'calculate',
+      description: 'Evaluate an arithmetic expression with + - * / % ^ and parentheses.',
+      parameters: {
+        type: 'object',
+        properties: { expression: { type: 'string', description: 'e.g. "(12.5 + 7) * 3"' } },
+        required: ['expression'],
+      },
+      run: ({ expression }: { expression: string }) => ({ expression, result: evaluate(expression) }),
+    },
+    {
+      name: 'set_mascot_expression',
+      description: "Set Alfred's facial expression to match the conversation.",
+      parameters: {
+        type: 'object',
+        properties: {
+          expression: { type: 'string', enum: EXPRESSIONS },
+          intensity: { type: 'number', description: '0..1, default 1' },
+        },
+        required: ['expression'],
+      },
+      run: ({ expression, intensity }: { expression: string; intensity?: number }) => {
+        host.setExpression(expression, intensity ?? 1);
+        return { ok: true };
+      },
+    },
+    {
+      name: 'lookup_event_info',
+      description: 'Look up the event schedule, room directions or FAQ answers. Use this for any question about the event.',
+      parameters: {
+        type: 'object',
+        properties: {
+          topic: { type: 'string', enum: ['schedule', 'rooms', 'faq'] },
+          query: { type: 'string', description: 'Optional filter, e.g. a room name, session title or time.' },
+        },
+        required: ['topic'],
+      },
+      run: async ({ topic, query }: { topic: 'schedule' | 'rooms' | 'faq'; query?: string }) => {
+        const res = await fetch(EVENT_DATA_URL, { cache: 'no-cache' });
+        if (!res.ok) throw new Error(`Event data unavailable (HTTP ${res.status})`);
+        const data = await res.json();
+        const items: any[] = data[topic] ?? [];
+        const q = query?.trim().toLowerCase();
+        const hits = q ? items.filter(i => JSON.stringify(i).toLowerCase().includes(q)) : items;
+        return { event: data.event, topic, results: hits.length ? hits : items };
+      },
+    },
+  ];
+}
+
+/* ---------- Tiny arithmetic parser (no eval) ---------- */
+function evaluate(src: string): number {
+  const tokens = src.match(/\d+(?:\.\d+)?|[-+*/%^()]|\S/g) ?? [];
+  let i = 0;
+  const peek = () => tokens[i];
+  const take = (t?: string) => {
+    const tok = tokens[i++];
+    if (t && tok !== t) throw new Error(`Expected "${t}" in "${src}"`);
+    return tok;
+  };
+
+  // expr := term (('+'|'-') term)* ; term := power (('*'|'/'|'%') power)* ; power := unary ('^' power)?
+  const expr = (): number => {
+    let v = term();
+    while (peek() === '+' || peek() === '-') v = take() === '+' ? v + term() : v - term();
+    return v;
+  };
+  const term = (): number => {
+    let v = power();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const op = take();
+      const r = power();
+      v = op === '*' ? v * r : op === '/' ? v / r : v % r;
+    }
+    return v;
+  };
+  const power = (): number => {
+    const b = unary();
+    return peek() === '^' ? (take(), b ** power()) : b;
+  };
+  const unary = (): number => {
+    if (peek() === '-') { take(); return -unary(); }
+    if (peek() === '+') { take(); return unary(); }
+    if (peek() === '(') { take(); const v = expr(); take(')'); return v; }
+    const tok = take();
+    const n = Number(tok);
+    if (tok === undefined || Number.isNaN(n)) throw new Error(`Unexpected "${tok ?? 'end'}" in "${src}"`);
+    return n;
+  };
+
+  const v = expr();
+  if (i < tokens.length) throw new Error(`Unexpected "${tokens[i]}" in "${src}"`);
+  if (!Number.isFinite(v)) throw new Error('Result is not a finite number');
+  return v;
+}
@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/**
+ * Structured debug log: level, category, millisecond timestamp and payload
+ * per entry, kept in a bounded buffer (oldest dropped). Listeners are told
+ * about new entries; the panel batches its rerenders. Exports as NDJSON.
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogCategory = 'app' | 'vad' | 'gemini' | 'azure' | 'player' | 'viseme';
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+export const LOG_CATEGORIES: LogCategory[] = ['app', 'vad', 'gemini', 'azure', 'player', 'viseme'];
+
+export interface LogEntry {
+  seq: number;
+  t: number;              // epoch ms (Date.now() + sub-ms from performance.now())
+  level: LogLevel;
+  category: LogCategory;
+  msg: string;
+  data?: unknown;
+}
+
+const T0 = Date.now() - performance.now();
+
+export class DebugLog {
+  private list: LogEntry[] = [];
+  private seq = 0;
+  private listeners = new Set<() => void>();
+
+  constructor(private capacity = 2000) {}
+
+  get entries(): readonly LogEntry[] { return this.list; }
+
+  add(level: LogLevel, category: LogCategory, msg: string, data?: unknown): LogEntry {
+    const entry: LogEntry = { seq: ++this.seq, t: T0 + performance.now(), level, category, msg };
+    if (data !== undefined) entry.data = data;
+    this.list.push(entry);
+    if (this.list.length > this.capacity) this.list.splice(0, this.list.length - this.capacity);
+    this.notify();
+    return entry;
+  }
+
+  clear() {
+    this.list = [];
+    this.notify();
+  }
+
+  /** Subscribe to changes; returns the unsubscribe function. */
+  subscribe(fn: () => void) {
+    this.listeners.add(fn);
+    return () => { this.listeners.delete(fn); };
+  }
+
+  toNdjson(entries: readonly LogEntry[] = this.list) {
+    return entries.map(e => JSON.stringify({ ...e, time: new Date(e.t).toISOString() })).join('\n') + '\n';
+  }
+
+  private notify() {
+    for (const fn of this.listeners) fn();
+  }
+}
+
+/** "12:03:04.517" */
+export function formatLogTime(t: number) {
+  const d = new Date(t);
+  return d.toLocaleTimeString([], { hour12: false }) + '.' + String(d.getMilliseconds()).padStart(3, '0');
+}
@@ -0,0 +1,143 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { LitElement, css, html } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { downloadText } from './download.ts';
+import { LOG_CATEGORIES, LOG_LEVELS, formatLogTime, type DebugLog, type LogCategory, type LogEntry, type LogLevel } from './debug-log.ts';
+
+const MAX_ROWS = 500;
+
+/**
+ * Debug log viewer: level / category filters, text search, pause (freezes the
+ * view while entries keep arriving), collapse and NDJSON export of what's
+ * shown. Rerenders at most once per frame, independently of the host.
+ * Fires `debug-close` when the close button is pressed.
+ */
+@customElement('gdm-debug-panel')
+export class GdmDebugPanel extends LitElement {
+  @property({ attribute: false }) log?: DebugLog;
+  @state() private collapsed = false;
+  @state() private paused?: readonly LogEntry[];    // frozen snapshot while paused
+  @state() private minLevel: LogLevel = 'debug';
+  @state() private categories = new Set<LogCategory>(LOG_CATEGORIES);
+  @state() private query = '';
+  private unsubscribe?: () => void;
+  private raf = 0;
+
+  static styles = css`
+    :host {
+      position:fixed; right:16px; top:16px; width:min(42vw,560px); z-index:99;
+      font:12px ui-monospace, SFMono-Regular, Menlo, Consolas, monospace;
+    }
+    .panel {
+      background:#0c0c0c; color:#95ff95; border:2px solid #2cf52c; border-radius:12px;
+      box-shadow:0 10px 40px rgba(0,0,0,.4); display:flex; flex-direction:column; max-height:64vh;
+    }
+    header { display:flex; flex-wrap:wrap; gap:6px; align-items:center; padding:8px 10px; border-bottom:1px solid #1f5f1f; }
+    header b { flex:1; }
+    .filters { display:flex; flex-wrap:wrap; gap:4px; padding:6px 10px; border-bottom:1px solid #1f5f1f; }
+    button, select, input { font:11px ui-monospace, monospace; padding:3px 6px; border-radius:6px; border:1px solid #2cf52c; background:#111; color:#95ff95; cursor:pointer; }
+    input[type=search] { flex:1; min-width:8em; cursor:text; }
+    .chip.off { opacity:.4; }
+    .list { overflow:auto; padding:6px 10px; white-space:pre-wrap; word-break:break-word; min-height:12em; }
+    .row { padding:1px 0; }
+    .time { color:#5c9f5c; }
+    .cat { color:#7fd0ff; }
+    .debug { color:#6f8f6f; }
+    .warn { color:#ffd54f; }
+    .error { color:#ff6e6e; }
+    .note { color:#5c9f5c; padding:4px 0; }
+  `;
+
+  connectedCallback() {
+    super.connectedCallback();
+    this.listen();
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+    cancelAnimationFrame(this.raf);
+    this.raf = 0;
+  }
+
+  protected willUpdate(changed: Map<string, unknown>) {
+    if (changed.has('log')) this.listen();
+  }
+
+  private listen() {
+    this.unsubscribe?.();
+    this.unsubscribe = this.log?.subscribe(() => {
+      if (this.raf) return;
+      this.raf = requestAnimationFrame(() => { this.raf = 0; this.requestUpdate(); });
+    });
+  }
+
+  private toggleCategory(c: LogCategory) {
+    const next = new Set(this.categories);
+    if (next.has(c)) next.delete(c); else next.add(c);
+    this.categories = next;
+  }
+
+  private get visible(): LogEntry[] {
+    const min = LOG_LEVELS.indexOf(this.minLevel);
+    const q = this.query.trim().toLowerCase();
+    return (this.paused ?? this.log?.entries ?? []).filter(e =>
+      LOG_LEVELS.indexOf(e.level) >= min && this.categories.has(e.category) &&
+      (!q || e.msg.toLowerCase().includes(q) || (e.data !== undefined && JSON.stringify(e.data).toLowerCase().includes(q))));
+  }
+
+  private export() {
+    if (!this.log) return;
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    downloadText(`alfred-log-${stamp}.ndjson`, this.log.toNdjson(this.visible), 'application/x-ndjson');
+  }
+
+  private renderEntry(e: LogEntry) {
+    const data = e.data === undefined ? '' : ' ' + JSON.stringify(e.data);
+    return html`<div class="row ${e.level}"><span class="time">${formatLogTime(e.t)}</span> <span class="cat">${e.category.padEnd(6)}</span> ${e.msg}${data}</div>`;
+  }
+
+  render() {
+    const all = this.log?.entries ?? [];
+    const rows = this.visible;
+    const lastSeq = all[all.length - 1]?.seq ?? 0;
+    const fresh = this.paused ? Math.max(0, lastSeq - (this.paused[this.paused.length - 1]?.seq ?? 0)) : 0;
+    return html`
+      <div class="panel">
+        <header>
+          <b>Debug</b>
+          <span>${rows.length}/${all.length}</span>
+          <button @click=${()=>this.paused = this.paused ? undefined : [...all]}>${this.paused ? `Resume (+${fresh})` : 'Pause'}</button>
+          <button @click=${()=>this.log?.clear()}>Clear</button>
+          <button @click=${this.export} title="Export the filtered entries">NDJSON</button>
+          <button @click=${()=>this.collapsed=!this.collapsed}>${this.collapsed ? '▸' : '▾'}</button>
+          <button title="Hide" @click=${()=>this.dispatchEvent(new CustomEvent('debug-close', { bubbles: true, composed: true }))}>×</button>
+        </header>
+        ${this.collapsed ? null : html`
+          <div class="filters">
+            <select .value=${this.minLevel} @change=${(e:any)=>this.minLevel=e.target.value}>
+              ${LOG_LEVELS.map(l => html`<option value=${l}>${l}+</option>`)}
+            </select>
+            ${LOG_CATEGORIES.map(c => html`
+              <button class="chip ${this.categories.has(c) ? '' : 'off'}" @click=${()=>this.toggleCategory(c)}>${c}</button>`)}
+            <input type="search" placeholder="Search" .value=${this.query} @input=${(e:any)=>this.query=e.target.value} />
+          </div>
+          <div class="list">
+            ${rows.length > MAX_ROWS ? html`<div class="note">showing newest ${MAX_ROWS} of ${rows.length}</div>` : null}
+            ${rows.slice(-MAX_ROWS).reverse().map(e => this.renderEntry(e))}
+          </div>`}
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'gdm-debug-panel': GdmDebugPanel;
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/**
+ * Mascot expressions and how a reply picks one: from an [expression] tag the
+ * model puts in its text (see model-tags.ts) or from a small keyword
+ * sentiment heuristic over each spoken segment.
+ */
+
+export type MascotExpression = 'neutral' | 'happy' | 'surprised' | 'concerned';
+export const EXPRESSIONS: MascotExpression[] = ['neutral', 'happy', 'surprised', 'concerned'];
+
+/** Where expressions come from: model [tags], keyword sentiment, or nowhere. */
+export type ExpressionMode = 'tags' | 'sentiment' | 'off';
+
+export interface ExpressionCue { name: MascotExpression; intensity: number }
+
+export function isExpression(name: string): name is MascotExpression {
+  return (EXPRESSIONS as string[]).includes(name);
+}
+
+const CUES: Array<{ name: MascotExpression; re: RegExp }> = [
+  { name: 'concerned', re: /\b(sorry|unfortunately|afraid|apolog\w*|can(?:'|’)?t|cannot|unable|problem|issue|trouble|sadly|worr\w*|careful|closed|cancel+ed|delay\w*)\b/gi },
+  { name: 'surprised', re: /\b(wow|whoa|amazing|incredible|unbelievable|surpris\w*|no way)\b|\breally\?|\?!/gi },
+  { name: 'happy', re: /\b(great|glad|happy|wonderful|welcome|congratulations|enjoy|awesome|excellent|love|thanks?|thank you|perfect|fantastic|delighted|pleasure)\b|[😊😄🙂🎉]/gu },
+];
+
+/** Keyword sentiment: strongest cue wins (ties go to the earlier entry); neutral when nothing matches. */
+export function sentimentExpression(text: string): ExpressionCue {
+  let best: ExpressionCue = { name: 'neutral', intensity: 0 };
+  let bestHits = 0;
+  for (const { name, re } of CUES) {
+    const hits = text.match(re)?.length ?? 0;
+    if (hits > bestHits) { bestHits = hits; best = { name, intensity: Math.min(1, 0.45 + 0.2 * hits) }; }
+  }
+  return best;
+}
+
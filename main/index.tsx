@@ -1,64 +1,74 @@
 /**
- * Alfred Voice Assistant — Gemini Live (TEXT) -> Azure TTS (audio + visemes)
- * - VAD-first: don't start a turn until speech is detected (~120 ms)
- * - Send mic as 16 kHz PCM Blobs via your createBlob(pcm) utility
- * - Speak ONCE per model turn; fresh Azure push-stream per utterance
- * - Always-on debug panel (top-right) with timestamps & states
+ * Alfred Voice Assistant — Gemini Live (TEXT) -> pluggable TTS (audio + visemes)
+ * - Mic via an AudioWorklet at 16 kHz; turns opened by VAD or push-/toggle-to-talk
+ * - Replies streamed to speech per sentence and played gaplessly; mascot lip sync from
+ *   visemes, or from audio analysis for Gemini native audio
+ * - Reconnecting Live session with tools, personas and saved settings profiles
+ * - Debug log, latency overlay, transcript and session record/replay panels
  *
  * Requires:
  *   - npm i @google/genai
- *   - index.html loads Azure Speech SDK: <script src="https://aka.ms/csspeech/jsbrowserpackageraw"></script>
+ *   - index.html loads Azure Speech SDK: <script src="https://aka.ms/csspeech/jsbrowserpackageraw"></script> (Azure provider only)
  *   - utils.ts exports createBlob(Float32Array): Blob (16 kHz PCM)
  *   - visual-mascot.ts defines <gdm-live-audio-visuals-mascot> with setViseme(id:number)
  */
 
-import { GoogleGenAI, Modality, type Session, type LiveServerMessage } from '@google/genai';
+import { GoogleGenAI, Modality, type LiveConnectConfig, type LiveServerMessage, type LiveServerToolCall } from '@google/genai';
 import { LitElement, css, html } from 'lit';
 import { customElement, state } from 'lit/decorators.js';
-import { createBlob } from './utils.ts';
+import { createBlob, decode, decodeAudioData } from './utils.ts';
+import { PcmaPlayer } from './pcm-player.ts';
+import { VisemeTimeline } from './viseme-timeline.ts';
+import { AudioLipSync } from './audio-lipsync.ts';
+import { MicCapture, MIC_SAMPLE_RATE, type MicCaptureEvents } from './mic-capture.ts';
+import { DEFAULT_VAD, type VadConfig } from './vad.ts';
+import { SPEECH_PROVIDERS, type SpeechProvider, type SpeechProviderKind, type SpeechRequest, type SpeechUtterance, type VisemeEvent } from './speech-provider.ts';
+import { DEFAULT_LANGUAGE_VOICES, splitByLanguage, voiceForLanguage, voiceLocale, isMultilingualVoice, type LanguageVoices } from './language-voices.ts';
+import { buildSsml, hasDelivery, type SsmlRun } from './ssml.ts';
+import { splitModelTags, stripModelTags, EXPRESSION_TAG_INSTRUCTION } from './model-tags.ts';
+import { sentimentExpression, type ExpressionCue, type ExpressionMode } from './expression.ts';
+import { DebugLog, type LogCategory, type LogLevel } from './debug-log.ts';
+import { LatencyTracker } from './latency.ts';
+import { SentenceSegmenter } from './sentence-segmenter.ts';
+import { Transcript } from './transcript.ts';
+import { LiveConnection } from './live-connection.ts';
+import { ToolRegistry } from './tools.ts';
+import { createBuiltinTools } from './builtin-tools.ts';
+import { SettingsStore, type SettingsProfile } from './settings-store.ts';
+import { DEFAULT_PERSONA, systemInstruction, languageName, type Persona } from './persona.ts';
+import { AzureSpeechProvider } from './azure-speech.ts';
+import { WebSpeechProvider } from './web-speech.ts';
+import { MockSpeechProvider } from './mock-speech.ts';
+import type { MascotState } from './visual-mascot.ts';
 import './visual-mascot';
+import './visual-3d.ts';
+import type { VisualsMode } from './visual-3d.ts';
+import { SessionRecorder, parseSessionBundle, type SessionBundle } from './session-recorder.ts';
+import { SessionReplay } from './session-replay.ts';
+import { downloadText } from './download.ts';
+import { INPUT_MODES, SHORTCUTS, shortcutFor, type InputMode } from './input-mode.ts';
+import './vad-tuner';
+import './transcript-panel';
+import './persona-editor';
+import './language-voices-editor';
+import './debug-panel';
+import './latency-overlay';
 
-declare global { interface Window { SpeechSDK: any; GEMINI_API_KEY?: string } }
+declare global { interface Window { GEMINI_API_KEY?: string } }
 
 const LIVE_MODELS = [
   'gemini-live-2.5-flash-preview',
   'gemini-2.0-flash-live-001'   // general availability
 ];
 
-/* ---------- Tiny WebAudio player for raw 24 kHz PCM (Azure push-out) ---------- */
-class PcmaPlayer {
-  readonly ctx: AudioContext;
-  private playHead = 0;
-  private started = false;
-  private prebufferSec = 0.12;
-  private _basePerfMs = 0;
-
-  constructor(sampleRate = 24000) {
-    this.ctx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate });
-  }
-  writePcm16(buf: ArrayBuffer) {
-    const i16 = new Int16Array(buf);
-    const f32 = new Float32Array(i16.length);
-    for (let i = 0; i < i16.length; i++) f32[i] = i16[i] / 0x8000;
-
-    const abuf = this.ctx.createBuffer(1, f32.length, this.ctx.sampleRate);
-    abuf.copyToChannel(f32, 0, 0);
-
-    const src = this.ctx.createBufferSource();
-    src.buffer = abuf;
-    src.connect(this.ctx.destination);
-
-    if (!this.started) {
-      this.playHead = this.ctx.currentTime + this.prebufferSec;
-      this._basePerfMs = performance.now() + this.prebufferSec * 1000;
-      this.started = true;
-    }
-    src.start(this.playHead);
-    this.playHead += f32.length / this.ctx.sampleRate;
-  }
-  get basePerfMs() { return this._basePerfMs; }
-  close() { try { this.ctx.close(); } catch {} }
-}
+const AZURE_VOICES = [
+  'en-US-JennyNeural', 'en-US-AriaNeural', 'en-GB-RyanNeural', 'en-US-GuyNeural', 'en-US-JennyMultilingualNeural',
+  'ta-IN-ValluvarNeural', 'ta-IN-PallaviNeural',
+  'ar-SA-HamedNeural', 'ar-EG-ShakirNeural', 'ar-AE-FahedNeural',
+];
+
+/** A queued speech segment; its expression is shown when its audio starts. */
+interface QueuedSpeech extends SpeechRequest { expression?: ExpressionCue }
 
 /* ---------- Component ---------- */
 @customElement('gdm-live-audio')
@@ -69,38 +79,85 @@ export class GdmLiveAudio extends LitElement {
   @state() private error = '';
 
   // Gemini Live
-  private ai!: GoogleGenAI;
-  private session!: Session;
-
-  // Mic (16 kHz) + VAD
-  private ac = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-  private stream?: MediaStream;
-  private src?: MediaStreamAudioSourceNode;
-  private proc?: ScriptProcessorNode;
-
-  // Manual VAD state
-  private vadActive = false;              // whether we've sent activityStart
-  private voiceMs = 0;
-  private silenceMs = 0;
-  private readonly START_THRESH = 0.0045; // speech onset RMS gate
-  private readonly START_MIN_MS = 120;    // how long above gate before starting a turn
-  private readonly END_SIL_MS = 350;      // silence to end a turn
-
-  // Azure (per-utterance objects)
+  private live?: LiveConnection;          // reconnects + session resumption
+  @state() private model = '';            // preferred Live model ('' = LIVE_MODELS order)
+  @state() private persona: Persona = { ...DEFAULT_PERSONA };
+  @state() private showPersona = false;
+  private greetPending = false;           // speak the persona greeting when the next fresh session opens
+  private tools = new ToolRegistry();
+  // 'text': Gemini TEXT -> SpeechProvider (visemes); 'audio': Gemini native 24 kHz audio + audio lip sync
+  @state() private responseMode: 'text' | 'audio' = 'text';
+
+  // Mic (AudioWorklet, resampled to 16 kHz) + VAD
+  private mic = new MicCapture();
+
+  // Manual VAD (runs in the worklet; thresholds tunable at runtime)
+  @state() private vadActive = false;     // whether we've sent activityStart (a user turn is open)
+  @state() private talkMode: InputMode = 'vad';
+  @state() private muted = false;         // mic muted: no turns open, nothing is sent
+  private talkHeld = false;               // push-to-talk key/button is down
+  private micOpening = false;             // talk pressed before Start: mic being opened
+  @state() private vad: VadConfig = { ...DEFAULT_VAD };
+  @state() private showVad = false;
+
+  // Speech synthesis (per-utterance objects)
+  @state() private speechKind: SpeechProviderKind = 'azure';
   @state() private azureKey = '';
   @state() private azureRegion = '';
   @state() private azureVoice = 'en-US-JennyNeural';
-  private player?: PcmaPlayer;
-  private visemeQueue: Array<{ tMs: number, id: number }> = [];
+  // Per-segment voice by detected language (azureVoice stays the base voice for Latin text)
+  @state() private autoVoice = true;
+  @state() private languageVoices: LanguageVoices = { ...DEFAULT_LANGUAGE_VOICES };
+  @state() private showLanguageVoices = false;
+  private speechProviders: Record<SpeechProviderKind, SpeechProvider> = {
+    azure: new AzureSpeechProvider(() => ({ key: this.azureKey, region: this.azureRegion })),
+    webspeech: new WebSpeechProvider(),
+    mock: new MockSpeechProvider(),
+  };
+  private utterance?: SpeechUtterance;
+  @state() private player?: PcmaPlayer;    // reactive: the 3D view taps its output
+  private speaking = false;               // segments synthesizing/queued (PCM may play on after)
+  private speechQueue: QueuedSpeech[] = [];
+  private timeline = new VisemeTimeline((id) => { if (this.lipSyncSource !== 'audio') this.mascot?.setViseme?.(id); });
+  @state() private lipSync = { blendMs: 70, minHoldMs: 50, anticipationMs: 30 };
+  // Mouth driver: provider visemes, audio analysis, or audio only when no visemes arrive
+  @state() private lipSyncSource: 'visemes' | 'audio' | 'auto' = 'auto';
+  private audioLipSync?: AudioLipSync;
+  private mascotState: MascotState = 'idle';
+  @state() private expressionMode: ExpressionMode = 'sentiment';
+  @state() private visuals: VisualsMode = '2d';
 
-  // Accumulate model text; speak once when turn ends
+  // Model text: whole turn in pendingText; finished sentences/clauses go to TTS as they arrive
   private pendingText = '';
+  private segmenter = new SentenceSegmenter();
   private tDebounce?: number;
+  private modelTurnOpen = false;          // model text arriving, turnComplete not yet seen
+  private discardModelTurn = false;       // barge-in: drop the rest of the interrupted model turn
+  private turnStyle = '';                 // speaking style set by a [style] tag earlier in this model turn
+  private tagCarry = '';                  // possible partial [tag] held back from the transcript
 
-  // Debug panel (always visible)
+  // Debug log (structured entries; the panel rerenders itself)
   @state() private showDebug = true;
-  private logs: string[] = [];
-  private turn = 0;
+  private debugLog = new DebugLog();
+
+  // Latency marks per user turn (speech onset -> first audible sample)
+  private latency = new LatencyTracker(() => this.renderRoot?.querySelector('gdm-latency-overlay')?.requestUpdate());
+  @state() private showLatency = false;
+  private turn = 0;                       // user turns (speech onsets) this session
+
+  // Settings profiles (localStorage; Azure key optionally session-only)
+  private settings = new SettingsStore();
+  @state() private profileName = this.settings.activeName;
+
+  // Session recording / replay (no network or mic while replaying)
+  private recorder = new SessionRecorder();
+  @state() private recordingSession = false;
+  @state() private replay?: SessionReplay;
+  @state() private draft = '';            // typed turn being composed
+  private replayRestore?: { profile: SettingsProfile; responseMode: 'text' | 'audio' };
+
+  // Conversation transcript (user: input transcription, Alfred: model text)
+  private transcript = new Transcript(() => this.renderRoot?.querySelector('gdm-transcript-panel')?.requestUpdate());
 
   static styles = css`
     :host { display:block; width:100%; height:100vh; position:relative; background:#fff; }
@@ -110,12 +167,16 @@ export class GdmLiveAudio extends LitElement {
       z-index:5; pointer-events:none;
       --mouth-top:34%; --mouth-left:50%; --mouth-width:42%;
     }
+    /* Hidden rather than removed in 3D view so behaviour state and expression carry over */
+    gdm-live-audio-visuals-mascot.hidden { display:none; }
+    gdm-live-audio-visuals-3d { position:absolute; inset:0; z-index:1; }
 
     .bar {
       position:absolute; top:16px; left:16px; right:16px; z-index:20;
       background:#2f2f2f; color:#fff; border-radius:12px; padding:12px; display:grid; gap:8px;
     }
     .row { display:grid; grid-template-columns:1fr 1fr; gap:8px; }
+    .row3 { display:grid; grid-template-columns:1fr 1fr 1fr; gap:8px; }
     input, select, button { font:14px system-ui,sans-serif; padding:8px; border-radius:8px; border:1px solid #ddd; }
 
     .controls {
@@ -125,145 +186,490 @@ export class GdmLiveAudio extends LitElement {
       width:64px; height:64px; border-radius:16px; cursor:pointer; border:1px solid #ddd; background:#f3f3f3;
     }
 
-    .status { position:absolute; bottom:4vh; left:0; right:0; text-align:center; color:#333; font:14px system-ui; }
+    .controls button.talk.on { background:#d32f2f; color:#fff; border-color:#d32f2f; }
+    .controls button.muted { background:#ffe0b2; }
+    .shortcuts { color:#bbb; font-size:12px; }
+    .shortcuts kbd { font:11px ui-monospace,monospace; background:#444; border-radius:4px; padding:1px 5px; }
 
-    /* Debug: big, obvious, fixed to top-right */
-    .debug {
-      position:fixed; right:16px; top:16px; width:min(42vw,560px); height:64vh; z-index:99;
-      background:#0c0c0c; color:#95ff95; border:2px solid #2cf52c; border-radius:12px; padding:10px; overflow:auto;
-      font:12px ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; white-space:pre-wrap;
-      box-shadow:0 10px 40px rgba(0,0,0,.4);
+    .compose {
+      position:absolute; bottom:calc(10vh + 80px); left:50%; transform:translateX(-50%);
+      width:min(560px, 80vw); display:flex; gap:8px; z-index:10;
     }
+    .compose input { flex:1; }
+
+    .status { position:absolute; bottom:4vh; left:0; right:0; text-align:center; color:#333; font:14px system-ui; }
+    .status.dark { color:#ddd; z-index:2; }
+
     .label { color:#bbb; font-size:12px; align-self:center; }
   `;
 
-  constructor() { super(); this.initGemini(); }
+  constructor() {
+    super();
+    this.timeline.leadMs = this.lipSync.anticipationMs;
+    this.loadProfile(this.settings.active);
+    for (const tool of createBuiltinTools({ setExpression: (name, intensity) => this.mascot?.setExpression?.(name, intensity) })) {
+      this.tools.register(tool);
+    }
+    this.initGemini();
+  }
+
+  connectedCallback() {
+    super.connectedCallback();
+    window.addEventListener('keydown', this.onKeyDown);
+    window.addEventListener('keyup', this.onKeyUp);
+    window.addEventListener('blur', this.onWindowBlur);
+  }
 
-  private log(msg: string, data?: any) {
-    const line = `[${new Date().toLocaleTimeString()}] ${msg}` + (data ? ` ${JSON.stringify(data)}` : '');
-    this.logs.unshift(line);
-    if (this.logs.length > 600) this.logs.length = 600;
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    window.removeEventListener('keydown', this.onKeyDown);
+    window.removeEventListener('keyup', this.onKeyUp);
+    window.removeEventListener('blur', this.onWindowBlur);
+  }
+
+  private log(category: LogCategory, msg: string, data?: any, level: LogLevel = 'info') {
+    this.debugLog.add(level, category, msg, data);
     // mirror to console
     // eslint-disable-next-line no-console
-    console.log('[Alfred]', msg, data ?? '');
-    this.requestUpdate();
+    const out = { debug: console.debug, info: console.log, warn: console.warn, error: console.error }[level];
+    out(`[Alfred:${category}]`, msg, data ?? '');
   }
 
   /* ---------- Gemini Live (TEXT only, manual activity) ---------- */
-  private async initGemini() {
+  private initGemini() {
     const key = (import.meta as any).env?.VITE_GEMINI_API_KEY || window.GEMINI_API_KEY;
     if (!key) { this.updateStatus('Add VITE_GEMINI_API_KEY in .env.local or set window.GEMINI_API_KEY.'); return; }
 
-    this.ai = new GoogleGenAI({ apiKey: key });
-
-    let lastErr: any;
-    for (const model of LIVE_MODELS) {
-      try {
-        this.session = await this.ai.live.connect({
-          model,
-          config: {
-            responseModalities: [Modality.TEXT],
-            // Force conversational behavior; don't ask to "paste text"
-            systemInstruction:
-              'You are Alfred. Wait for the user to speak; respond after the user finishes their turn (activityEnd). Be brief and conversational.',
-            // We'll send activityStart / activityEnd ourselves
-            realtimeInputConfig: { automaticActivityDetection: { disabled: true } }
-          },
-          callbacks: {
-            onopen: () => { this.updateStatus(`✅ Connected (${model}) — click Start to speak`); this.log('Gemini connected', { model }); },
-            onmessage: (m: LiveServerMessage) => this.onGeminiMessage(m),
-            onerror: (e: ErrorEvent) => this.updateError('Gemini error: ' + e.message),
-            onclose: (e: CloseEvent) => this.updateStatus(`Connection closed: ${e.reason || '—'}`),
-          },
-        });
-        return;
-      } catch (err) { lastErr = err; }
+    this.live = new LiveConnection(new GoogleGenAI({ apiKey: key }), () => this.liveModels, () => this.liveConfig(), {
+      onOpen: (model, resumed) => this.onGeminiOpen(model, resumed),
+      onMessage: (m) => this.onGeminiMessage(m),
+      onStatus: (s) => this.updateStatus(s),
+      onError: (s) => this.updateError(s),
+    });
+    this.greetPending = true;
+    this.live.connect();
+  }
+
+  /** Preferred model first, the rest as fallbacks. */
+  private get liveModels() {
+    return this.model ? [this.model, ...LIVE_MODELS.filter(m => m !== this.model)] : LIVE_MODELS;
+  }
+
+  private liveConfig(): LiveConnectConfig {
+    return {
+      responseModalities: [this.responseMode === 'audio' ? Modality.AUDIO : Modality.TEXT],
+      // Force conversational behavior; don't ask to "paste text"
+      systemInstruction: systemInstruction(this.persona, this.responseMode) + (this.expressionMode === 'tags' && this.responseMode === 'text' ? '\n' + EXPRESSION_TAG_INSTRUCTION : ''),
+      // We'll send activityStart / activityEnd ourselves
+      realtimeInputConfig: { automaticActivityDetection: { disabled: true } },
+      // Transcripts: what the user said (and what Alfred said, when Gemini speaks itself)
+      inputAudioTranscription: {},
+      ...(this.responseMode === 'audio' ? { outputAudioTranscription: {}, speechConfig: { languageCode: this.persona.language || undefined } } : {}),
+      // Function calling (local time, calculator, mascot expression, event info)
+      tools: this.tools.declarations,
+    };
+  }
+
+  private onGeminiOpen(model: string, resumed: boolean) {
+    this.recorder.add({ kind: 'open', model, resumed });
+    // Whatever the dropped socket was still sending for the model turn is gone
+    if (this.modelTurnOpen) { this.modelTurnOpen = false; this.discardModelTurn = false; this.flushModelText(); this.transcript.close(); }
+
+    this.updateStatus(resumed ? `✅ Resumed (${model})` : `✅ Connected (${model}) — click Start to speak`);
+    this.log('gemini', resumed ? 'Gemini session resumed' : 'Gemini connected', { model, mode: this.responseMode });
+
+    // Before any user gesture audio can't play: the greeting waits for Start
+    if (!resumed && this.greetPending && this.audioUnlocked) { this.greetPending = false; this.greet(); }
+
+    // A mic turn was in progress when the socket dropped: reopen it on the new session
+    if (this.isRecording && this.vadActive) {
+      this.session?.sendRealtimeInput?.({ activityStart: {} });
+      this.log('gemini', `TURN #${this.turn} — activityStart re-sent after reconnect`);
     }
-    this.updateError('Failed to connect to Gemini Live: ' + (lastErr?.message || lastErr));
   }
 
   private onGeminiMessage(message: LiveServerMessage) {
+    this.recorder.add({ kind: 'message', message });
+    if (message.toolCall) this.onToolCall(message.toolCall);
+    if (message.toolCallCancellation) {
+      this.tools.cancel(message.toolCallCancellation.ids);
+      this.log('gemini', 'Tool calls cancelled', { ids: message.toolCallCancellation.ids });
+    }
+
     const sc: any = (message as any).serverContent;
     if (!sc) return;
 
-    // 1) Accumulate any text parts
+    if (sc.inputTranscription?.text) this.transcript.append('user', this.turn, sc.inputTranscription.text);
+    if (sc.outputTranscription?.text && !this.discardModelTurn) this.transcript.append('alfred', this.turn, sc.outputTranscription.text);
+    if (sc.turnComplete || sc.interrupted) this.transcript.close();
+
+    if (sc.interrupted) this.log('gemini', 'Gemini turn interrupted');
+    if (this.discardModelTurn) {
+      if (sc.turnComplete || sc.interrupted) { this.discardModelTurn = false; this.modelTurnOpen = false; }
+      return;
+    }
+
     const parts = sc?.modelTurn?.parts || [];
-    for (const p of parts) if (p?.text) this.pendingText += p.text;
+    if (parts.length) this.latency.mark(this.turn, 'firstText');
+    if (sc.turnComplete) this.latency.mark(this.turn, 'turnComplete');
+    if (this.responseMode === 'audio') { this.onGeminiAudio(parts, sc); return; }
+
+    // 1) Accumulate text parts; speak each finished sentence/clause right away
+    for (const p of parts) {
+      if (!p?.text) continue;
+      this.pendingText += p.text;
+      if (!this.modelTurnOpen) { this.turnStyle = ''; this.tagCarry = ''; }
+      this.modelTurnOpen = true;
+      this.transcript.append('alfred', this.turn, this.transcriptText(p.text));
+      for (const seg of this.segmenter.push(p.text)) this.azureSpeak(seg);
+    }
+    if (sc.turnComplete || sc.interrupted) this.modelTurnOpen = false;
 
-    // 2) Speak ONCE per turn when server marks completion
+    // 2) Speak the remainder when the server marks completion
+    if (this.tDebounce) { clearTimeout(this.tDebounce); this.tDebounce = undefined; }
     if (sc.generationComplete || sc.turnComplete) {
-      const text = this.pendingText.trim(); this.pendingText = '';
-      if (text) this.azureSpeak(text);
+      this.flushModelText();
+      if (sc.turnComplete) this.settleMascot();
     } else {
       // Fallback: short debounce if the server doesn't send flags
-      if (this.tDebounce) clearTimeout(this.tDebounce);
-      this.tDebounce = window.setTimeout(() => {
-        const text = this.pendingText.trim(); this.pendingText = '';
-        if (text) this.azureSpeak(text);
-      }, 160);
+      this.tDebounce = window.setTimeout(() => this.flushModelText(), 160);
     }
   }
 
-  /* ---------- Azure TTS (fresh stream per utterance) + visemes ---------- */
+  private flushModelText() {
+    const rest = this.segmenter.flush();
+    if (rest) this.azureSpeak(rest);
+    if (this.tagCarry) { this.transcript.append('alfred', this.turn, this.tagCarry); this.tagCarry = ''; }
+    const text = stripModelTags(this.pendingText).text.trim(); this.pendingText = '';
+    if (text) this.log('gemini', 'Alfred said', { text: text.slice(0, 240) });
+  }
+
+  /** Whether Gemini was told to emit [style] / [expression] tags (text replies only). */
+  private get modelTags() { return this.responseMode === 'text' && (this.persona.delivery.styleTags || this.expressionMode === 'tags'); }
+
+  /** Model text for the transcript: [tags] removed when Gemini uses them. */
+  private transcriptText(chunk: string) {
+    if (!this.modelTags) return chunk;
+    const { text, carry } = stripModelTags(this.tagCarry + chunk);
+    this.tagCarry = carry;
+    return text;
+  }
+
+  /** Whether the page has had a user gesture, so new AudioContexts may play. */
+  private get audioUnlocked() { return navigator.userActivation?.hasBeenActive ?? true; }
+
+  /** Speak the persona greeting through the speech provider (Gemini doesn't see it). */
+  private greet() {
+    const text = this.persona.greeting.trim();
+    if (!text) return;
+    const reason = this.speech.unavailableReason();
+    if (reason) { this.log('azure', 'Greeting skipped', { reason }, 'warn'); return; }
+    this.transcript.append('alfred', this.turn, text);
+    this.transcript.close('alfred');
+    this.log('app', 'Greeting', { persona: this.persona.name, text });
+    this.azureSpeak(text);
+  }
+
+  /* ---------- Tools: run function calls locally, answer with toolResponse ---------- */
+  private async onToolCall(toolCall: LiveServerToolCall) {
+    const calls = toolCall.functionCalls ?? [];
+    for (const c of calls) this.log('gemini', `Tool call: ${c.name}`, c.args);
+    const functionResponses = await this.tools.handle(calls);
+    if (!functionResponses.length) return;
+    for (const r of functionResponses) this.log('gemini', `Tool result: ${r.name}`, r.response);
+    this.session?.sendToolResponse?.({ functionResponses });
+  }
+
+  /* ---------- Gemini native audio: stream PCM parts into one player per model turn ---------- */
+  private onGeminiAudio(parts: any[], sc: any) {
+    for (const p of parts) {
+      const data = p?.inlineData?.data;
+      if (!data) continue;
+      this.modelTurnOpen = true;
+      const rate = Number(/rate=(\d+)/.exec(p.inlineData.mimeType || '')?.[1]) || 24000;
+
+      // First audio of a turn: fresh player + audio-driven mouth
+      if (!this.speaking || !this.player) {
+        this.utterance?.cancel(); this.utterance = undefined;
+        this.player?.close();
+        this.player = new PcmaPlayer(rate);
+        this.timeline.clear();
+        this.speaking = true;
+        this.startAudioLipSync(this.player, true);
+        this.log('player', 'Gemini audio turn', { rate });
+      }
+      const player = this.player;
+      const turn = this.turn;
+      decodeAudioData(decode(data), player.ctx, rate, 1).then(buf => {
+        if (this.player !== player) return;
+        this.latency.mark(turn, 'firstAudioWrite');
+        player.writeBuffer(buf);
+        this.setMascotState('speaking');
+        this.latency.mark(turn, 'firstAudible', player.basePerfMs);
+      }).catch((e: any) => this.log('player', 'Audio chunk decode failed', { error: e?.message || String(e) }, 'error'));
+    }
+    if (sc.turnComplete || sc.interrupted) { this.modelTurnOpen = false; this.speaking = false; }
+    if (sc.turnComplete) this.settleMascot();
+  }
+
+  private setResponseMode(mode: 'text' | 'audio') {
+    if (mode === this.responseMode) return;
+    this.responseMode = mode;
+    this.interruptSpeech();
+    this.resetSession();
+  }
+
+  /** New persona: its voice becomes the speech voice; fresh session (and greeting) with the new instruction. */
+  private setPersona(persona: Persona) {
+    this.persona = persona;
+    if (persona.voice) this.azureVoice = persona.voice;
+    this.log('app', 'Persona', { name: persona.name, language: persona.language, voice: persona.voice });
+    this.interruptSpeech();
+    this.resetSession();
+  }
+
+  private setModel(model: string) {
+    if (model === this.model) return;
+    this.model = model;
+    this.interruptSpeech();
+    this.resetSession();
+  }
+
+  /* ---------- TTS via the selected SpeechProvider: segment queue on one gapless player ---------- */
+  private get speech(): SpeechProvider {
+    if (this.replay) return this.replay.speech;
+    const provider = this.speechProviders[this.speechKind];
+    return this.recorder.recording ? this.recorder.speech(provider) : provider;
+  }
+
+  /** Queue one text segment; consecutive segments play back-to-back on the same player/timeline. */
   private azureSpeak(text: string) {
-    const SDK = window.SpeechSDK;
-    if (!SDK) { this.updateError('Azure Speech SDK not loaded'); return; }
-    if (!this.azureKey || !this.azureRegion) { this.updateStatus('Enter Azure key & region'); return; }
-
-    // 1) Config voice; ask for raw 24 kHz PCM (property, not setter)
-    const speechConfig = SDK.SpeechConfig.fromSubscription(this.azureKey, this.azureRegion);
-    speechConfig.speechSynthesisVoiceName = this.azureVoice;
-    if ((SDK as any).SpeechSynthesisOutputFormat?.Raw24Khz16BitMonoPcm !== undefined) {
-      (speechConfig as any).speechSynthesisOutputFormat = (SDK as any).SpeechSynthesisOutputFormat.Raw24Khz16BitMonoPcm;
+    const provider = this.speech;
+    const reason = provider.unavailableReason();
+    if (reason) { this.updateError(reason); return; }
+
+    // Idle (nothing synthesizing, queued or still audible): start a fresh player + timeline
+    const idle = !this.utterance && !this.speechQueue.length && !this.player?.playing;
+    if (idle || (this.player?.ctx.sampleRate ?? 0) !== provider.sampleRate) {
+      this.utterance?.cancel(); this.utterance = undefined;
+      this.player?.close();
+      this.player = provider.sampleRate ? new PcmaPlayer(provider.sampleRate) : undefined;
+      this.timeline.clear();
+      if (this.player) this.startAudioLipSync(this.player);
+    }
+
+    this.speechQueue.push(...this.speechRequests(text, provider));
+    this.speakNext();
+  }
+
+  /**
+   * Requests for one segment. [tags] are stripped (a style lasts for the rest
+   * of the turn, an expression goes with the segment); with auto voice, each
+   * script/language run gets its mapped voice. One SSML request (with the
+   * persona's delivery) when the provider takes SSML, else one plain request
+   * per voice.
+   */
+  private speechRequests(text: string, provider: SpeechProvider): QueuedSpeech[] {
+    const reqs = this.segmentRequests(text, provider);
+    const expression = this.segmentExpression(text);
+    if (expression && reqs.length) reqs[0].expression = expression;
+    return reqs;
+  }
+
+  /** Expression for a segment: its [expression] tag, or a non-neutral keyword sentiment. */
+  private segmentExpression(text: string): ExpressionCue | undefined {
+    if (this.expressionMode === 'tags') {
+      const name = splitModelTags(text, '').expression;
+      return name ? { name, intensity: 1 } : undefined;
+    }
+    if (this.expressionMode !== 'sentiment') return undefined;
+    const cue = sentimentExpression(stripModelTags(text).text);
+    return cue.name === 'neutral' ? undefined : cue;
+  }
+
+  private segmentRequests(text: string, provider: SpeechProvider): QueuedSpeech[] {
+    const delivery = this.persona.delivery;
+    let parts = [{ style: '', text }];
+    if (this.modelTags) {
+      const tagged = splitModelTags(text, this.turnStyle);
+      this.turnStyle = tagged.style;
+      parts = delivery.styleTags ? tagged.parts : tagged.parts.map(p => ({ ...p, style: '' }));
+    }
+
+    const runs: SsmlRun[] = parts.flatMap(part =>
+      (this.autoVoice ? splitByLanguage(part.text) : [{ lang: '', text: part.text }]).map(r => ({
+        voice: voiceForLanguage(r.lang, this.azureVoice, this.languageVoices),
+        lang: r.lang ? voiceLocale(this.languageVoices[r.lang] ?? '') || r.lang : '',
+        style: part.style || undefined,
+        text: r.text,
+      })));
+    if (!runs.length) return [];
+
+    const plain = runs.map(r => r.text).join('');
+    const voices = [...new Set(runs.map(r => r.voice))];
+    const switchesLang = isMultilingualVoice(voices[0]) && runs.some(r => r.lang);
+    const styled = hasDelivery(delivery) || runs.some(r => r.style);
+    if (voices.length > 1 || voices[0] !== this.azureVoice) this.log('azure', 'Voice by language', { voices, langs: runs.map(r => r.lang || 'base') });
+
+    if (voices.length === 1 && !switchesLang && !(styled && provider.supportsSsml)) return [{ text: plain, voice: voices[0] }];
+    if (provider.supportsSsml) return [{ text: plain, voice: voices[0], ssml: buildSsml(runs, delivery) }];
+
+    const reqs: QueuedSpeech[] = [];
+    for (const r of runs) {
+      const last = reqs[reqs.length - 1];
+      if (last?.voice === r.voice) last.text += r.text; else reqs.push({ text: r.text, voice: r.voice });
     }
+    return reqs.map(r => ({ ...r, text: r.text.trim() })).filter(r => r.text);
+  }
 
-    // 2) Fresh player + push stream + synthesizer for THIS utterance
-    this.player?.close();
-    this.player = new PcmaPlayer(24000);
-    this.visemeQueue.length = 0;
-
-    const push = SDK.PushAudioOutputStream.create({
-      write: (dataBuffer: ArrayBuffer) => {
-        this.player!.writePcm16(dataBuffer);
-        // Once playback begins (base time known), flush queued visemes
-        if (this.player!.basePerfMs && this.visemeQueue.length) this.flushQueuedVisemes();
-        return dataBuffer.byteLength;
+  private speakNext() {
+    if (this.utterance || !this.speechQueue.length) return;
+    const provider = this.speech;
+    const { expression, ...req } = this.speechQueue.shift()!;
+    const turn = this.turn;
+    // This segment is audible: speaking state + its expression
+    const audible = () => {
+      this.setMascotState('speaking');
+      if (expression) this.setExpression(expression);
+    };
+    this.latency.mark(turn, 'synthStart');
+    this.speaking = true;
+    if (this.player && !this.audioLipSync) this.startAudioLipSync(this.player);
+
+    // Segment start on the timeline (ms); known at its first audio, visemes before that wait
+    let baseMs = -1;
+    const early: VisemeEvent[] = [];
+    let visemes = 0;
+    const begin = (ms: number) => { baseMs = ms; for (const v of early) this.timeline.add(baseMs + v.offsetMs, v.id); early.length = 0; };
+
+    this.log('azure', `${provider.name} speak`, { text: req.text.slice(0, 120), voice: req.voice, ssml: !!req.ssml, queued: this.speechQueue.length });
+    const utterance: SpeechUtterance = provider.speak(req, {
+      // Self-playing providers: audio starts now, on the wall clock
+      onStart: () => {
+        if (this.player) return;
+        if (!this.timeline.started) this.timeline.start(() => performance.now() / 1000);
+        begin(this.timeline.position * 1000);
+        this.latency.mark(turn, 'firstAudioWrite');
+        this.latency.mark(turn, 'firstAudible');
+        audible();
+      },
+      onAudio: (chunk) => {
+        const player = this.player;
+        if (!player) return;
+        const first = baseMs < 0;
+        if (first) {
+          begin(player.nextOffsetSec * 1000);
+          this.log('player', 'Segment audio', { atMs: Math.round(baseMs), queuedMs: Math.round((player.nextOffsetSec - player.now) * 1000) }, 'debug');
+          this.latency.mark(turn, 'firstAudioWrite');
+        }
+        player.writePcm16(chunk);
+        // basePerfMs is when offset 0 plays; this segment starts baseMs later
+        if (first) { this.latency.mark(turn, 'firstAudible', player.basePerfMs + baseMs); audible(); }
+        // First chunk fixes the audio-clock origin; visemes received so far start playing
+        if (!this.timeline.started) this.timeline.start(() => player.now, player.startTime);
       },
-      close: () => {}
+      // Visemes: offsets relative to the segment's first audible sample
+      onViseme: (v) => { visemes++; if (baseMs < 0) early.push(v); else this.timeline.add(baseMs + v.offsetMs, v.id); },
+      onEnd: () => { this.log('viseme', 'Segment visemes', { count: visemes, baseMs: Math.round(baseMs) }, 'debug'); this.utteranceDone(utterance); },
+      onError: (err) => { this.updateError(`${provider.name} TTS error: ` + err); this.utteranceDone(utterance); },
     });
-    const audioConfig = SDK.AudioConfig.fromStreamOutput(push);
-    const synth = new SDK.SpeechSynthesizer(speechConfig, audioConfig);
-
-    // 3) Visemes: schedule by audioOffset ticks (100 ns) relative to playback base
-    synth.visemeReceived = (_: any, e: any) => {
-      const tMs = e.audioOffset / 10000; // ticks -> ms (100 ns ticks)
-      const base = this.player!.basePerfMs;
-      if (!base) { this.visemeQueue.push({ tMs, id: e.visemeId }); return; }
-      const eta = Math.max(0, tMs - (performance.now() - base));
-      window.setTimeout(() => this.mascot?.setViseme?.(e.visemeId), eta);
-    };
-    synth.synthesisCompleted = () => {
-      window.setTimeout(() => this.mascot?.setViseme?.(0), 120);
-      try { synth.close(); } catch {}
-    };
+    this.utterance = utterance;
+  }
 
-    this.log('Azure speak', { text: text.slice(0, 120) });
-    synth.speakTextAsync(
-      text,
-      () => {},
-      (err: any) => { console.error(err); this.updateError('Azure TTS error: ' + err); try { synth.close(); } catch {} }
-    );
-  }
-
-  private flushQueuedVisemes() {
-    const base = this.player!.basePerfMs;
-    if (!base) return;
-    this.log('Flushing queued visemes', { count: this.visemeQueue.length });
-    for (const v of this.visemeQueue) {
-      const eta = Math.max(0, v.tMs - (performance.now() - base));
-      window.setTimeout(() => this.mascot?.setViseme?.(v.id), eta);
+  /** Synthesis of a segment finished: start the next one (audio keeps playing gaplessly). */
+  private utteranceDone(u: SpeechUtterance) {
+    if (this.utterance !== u) return;
+    this.utterance = undefined;
+    if (this.speechQueue.length) { this.speakNext(); return; }
+    this.speaking = false;
+    this.timeline.close(120);
+    if (!this.player) this.settleMascot(); // self-playing provider: audio ends with synthesis
+  }
+
+  private get isSpeaking() { return this.speaking || !!this.player?.playing; }
+
+  /** Barge-in: cancel synthesis, playback and pending visemes; close the mouth. */
+  private interruptSpeech() {
+    this.utterance?.cancel(); this.utterance = undefined;
+    this.player?.close();     this.player = undefined;
+    this.speaking = false;
+    this.speechQueue.length = 0;
+    this.timeline.clear();
+    this.stopAudioLipSync();
+    this.mascot?.setViseme?.(0);
+    if (this.mascotState === 'speaking') this.setMascotState('idle');
+
+    // Drop any model text still streaming for the interrupted answer
+    if (this.tDebounce) { clearTimeout(this.tDebounce); this.tDebounce = undefined; }
+    this.pendingText = '';
+    this.segmenter.reset();
+    this.discardModelTurn = this.modelTurnOpen;
+  }
+
+  /* ---------- Audio-driven lip sync (fallback when a source has no visemes) ---------- */
+  /** `force`: the source never has visemes (native audio, clips), so drive the mouth in every mode. */
+  private startAudioLipSync(player: PcmaPlayer, force = false) {
+    this.stopAudioLipSync();
+    const lipSync = new AudioLipSync(player.output, ({ openness, visemeId }) => {
+      // Done once synthesis ended and the queued audio has drained
+      if (!this.speaking && !player.playing && player.startTime) { this.stopAudioLipSync(); this.mascot?.setViseme?.(0); this.settleMascot(); return; }
+      if (!force && this.lipSyncSource === 'visemes') return;
+      if (!force && this.lipSyncSource === 'auto' && this.timeline.hasEvents) return;
+      this.mascot?.setViseme?.(visemeId);
+      this.mascot?.setOpenness?.(openness);
+    });
+    this.audioLipSync = lipSync;
+    lipSync.start();
+  }
+
+  private stopAudioLipSync() {
+    if (!this.audioLipSync) return;
+    this.audioLipSync.stop();
+    this.audioLipSync = undefined;
+    this.mascot?.setOpenness?.(null);
+  }
+
+  /** Play a pre-recorded clip through the player with audio-driven lip sync. */
+  private async playClip(file: File) {
+    this.interruptSpeech();
+    const player = this.player = new PcmaPlayer();
+    try {
+      const buf = await player.ctx.decodeAudioData(await file.arrayBuffer());
+      if (this.player !== player) return;
+      this.startAudioLipSync(player, true);
+      player.writeBuffer(buf);
+      this.setMascotState('speaking');
+      this.log('player', 'Playing clip', { name: file.name, seconds: +buf.duration.toFixed(2) });
+    } catch (e: any) {
+      this.updateError('Clip error: ' + (e?.message || e));
     }
-    this.visemeQueue.length = 0;
+  }
+
+  /* ---------- Mascot behaviour: listening (speech) -> thinking (turn sent) -> speaking -> idle ---------- */
+  private setMascotState(s: MascotState) {
+    if (s === this.mascotState) return;
+    this.mascotState = s;
+    this.mascot?.setState?.(s);
+    this.log('app', 'Mascot state', { state: s }, 'debug');
+  }
+
+  private setExpression({ name, intensity }: ExpressionCue) {
+    this.mascot?.setExpression?.(name, intensity);
+    this.log('app', 'Mascot expression', { name, intensity: +intensity.toFixed(2) }, 'debug');
+  }
+
+  private setExpressionMode(mode: ExpressionMode) {
+    if (mode === this.expressionMode) return;
+    const reconnect = mode === 'tags' || this.expressionMode === 'tags'; // system instruction changes
+    this.expressionMode = mode;
+    if (mode === 'off') this.mascot?.setExpression?.('neutral', 0);
+    if (reconnect) { this.interruptSpeech(); this.resetSession(); }
+  }
+
+  /** Back to idle once nothing is queued or audible (no-op while listening). */
+  private settleMascot() {
+    if (this.mascotState === 'listening') return;
+    if (!this.isSpeaking && !this.utterance && !this.speechQueue.length) this.setMascotState('idle');
   }
 
   private get mascot() {
@@ -274,70 +680,17 @@ export class GdmLiveAudio extends LitElement {
   private async startRecording() {
     if (this.isRecording) return;
     try {
-      await this.ac.resume();
-      this.stream = await navigator.mediaDevices.getUserMedia({
-        audio: { channelCount: 1, noiseSuppression: true, echoCancellation: true, autoGainControl: false },
-        video: false
-      });
-
-      this.src = this.ac.createMediaStreamSource(this.stream);
-      const bufferSize = 256; // ~16 ms @16k
-      const proc = this.ac.createScriptProcessor(bufferSize, 1, 1);
-      this.proc = proc;
-
       // Reset VAD
       this.vadActive = false;
-      this.voiceMs = 0;
-      this.silenceMs = 0;
-      this.turn++;
-      this.log(`TURN #${this.turn} — listening…`);
-
-      proc.onaudioprocess = (ev) => {
-        if (!this.isRecording) return;
-        const pcm = ev.inputBuffer.getChannelData(0);
-
-        // RMS for VAD
-        let sum = 0; for (let i = 0; i < pcm.length; i++) sum += pcm[i] * pcm[i];
-        const rms = Math.sqrt(sum / pcm.length);
-        const voiced = rms > this.START_THRESH;
-
-        if (!this.vadActive) {
-          // Wait for speech onset ~120 ms before starting the turn
-          if (voiced) this.voiceMs += (pcm.length / 16000) * 1000; else this.voiceMs = 0;
-
-          if (this.voiceMs >= this.START_MIN_MS) {
-            this.session?.sendRealtimeInput?.({ activityStart: {} });
-            this.vadActive = true;
-            this.log(`TURN #${this.turn} — activityStart sent`);
-            // send this current buffer as first chunk
-            this.session?.sendRealtimeInput?.({ media: createBlob(pcm) });
-          }
-          return;
-        }
+      this.log('vad', 'Listening…');
 
-        // In a turn: stream mic as 16 kHz PCM Blob (your util)
-        this.session?.sendRealtimeInput?.({ media: createBlob(pcm) });
-
-        // End after ~350 ms of silence
-        if (voiced) {
-          this.silenceMs = 0;
-        } else {
-          this.silenceMs += (pcm.length / 16000) * 1000;
-          if (this.silenceMs > this.END_SIL_MS) {
-            this.session?.sendRealtimeInput?.({ activityEnd: {} });
-            this.vadActive = false;
-            this.voiceMs = 0;
-            this.silenceMs = 0;
-            this.log(`TURN #${this.turn} — activityEnd sent`);
-          }
-        }
-      };
-
-      this.src.connect(proc);
-      proc.connect(this.ac.destination);
+      await this.mic.start(this.micEvents(), this.talkMode === 'vad' ? this.vad : null);
 
       this.isRecording = true;
-      this.updateStatus('🎤 Recording — speak now');
+      this.log('vad', 'Mic capture', { deviceRate: this.mic.ctx.sampleRate, sendRate: MIC_SAMPLE_RATE, input: this.talkMode });
+      this.updateStatus(this.talkMode === 'vad' ? '🎤 Recording — speak now' : '🎤 Mic on — hold or press Space (or 🎙) to talk');
+      // Session opened at page load (no gesture yet): greet now
+      if (this.greetPending && this.session) { this.greetPending = false; this.greet(); }
     } catch (e: any) {
       console.error(e);
       this.updateError('Mic error: ' + (e?.message || e));
@@ -345,31 +698,383 @@ export class GdmLiveAudio extends LitElement {
     }
   }
 
+  /* ---------- Typed input: a user turn as client content; the reply takes the usual path ---------- */
+  private sendText(raw: string) {
+    const text = raw.trim();
+    if (!text) return false;
+    const session = this.session;
+    if (!session && !this.replay) { this.updateError('Not connected to Gemini — press ⟳ to reconnect'); return false; }
+    this.recorder.add({ kind: 'text', text });
+
+    // Typing while a spoken turn is open: that turn ends here
+    if (this.vadActive) {
+      session?.sendRealtimeInput?.({ activityEnd: {} });
+      this.vadActive = false;
+      this.latency.mark(this.turn, 'activityEnd');
+      this.log('vad', `TURN #${this.turn} — activityEnd sent (typed turn follows)`);
+    }
+
+    this.turn++;
+    // No speech phase: the turn is "over" the moment it is sent
+    this.latency.begin(this.turn, this.live?.model ?? '', { activityEnd: performance.now() });
+    if (this.isSpeaking) {
+      this.interruptSpeech();
+      this.log('app', `TURN #${this.turn} — typed barge-in: interrupted Alfred`);
+    }
+    session?.sendClientContent({ turns: [{ role: 'user', parts: [{ text }] }], turnComplete: true });
+    this.transcript.append('user', this.turn, text);
+    this.transcript.close('user');
+    this.setMascotState('thinking');
+    this.log('gemini', `TURN #${this.turn} — typed turn sent`, { text: text.slice(0, 240) });
+    return true;
+  }
+
+  private onCompose(e: Event) {
+    e.preventDefault();
+    if (this.sendText(this.draft)) this.draft = '';
+  }
+
+  /** VAD / frame handlers for the mic (and for a replayed session's mic). */
+  private micEvents(): MicCaptureEvents {
+    return {
+      // VAD: speech onset (startMinMs above the gate) starts the turn; pre-roll frames follow
+      onSpeechStart: () => this.userTurnStart(),
+      // In a turn: stream mic as 16 kHz PCM Blob (your util)
+      onFrame: (pcm, rms) => {
+        if (!this.vadActive) return;   // manual modes stream every frame; only turns are kept and sent
+        this.recorder.mic(pcm, rms);
+        if (this.isRecording) this.session?.sendRealtimeInput?.({ media: createBlob(pcm) });
+      },
+      // VAD: end after endSilMs below the offset gate
+      onSpeechEnd: () => this.userTurnEnd(),
+      onLevel: (level) => { const t = this.vadTuner; if (t) t.level = level; },
+    };
+  }
+
+  /** A user turn opens (VAD onset or talk pressed): barge-in, activityStart, listening. */
+  private userTurnStart() {
+    this.recorder.add({ kind: 'vad', event: 'start' });
+    if (!this.isRecording || this.muted || this.vadActive) return;
+    this.turn++;
+    // The worklet reports onset once speech has lasted startMinMs; a key press is the onset itself
+    const onsetMs = this.talkMode === 'vad' ? this.vad.startMinMs : 0;
+    this.latency.begin(this.turn, this.live?.model ?? '', { speechOnset: performance.now() - onsetMs });
+    if (this.isSpeaking) {
+      this.interruptSpeech();
+      this.log('vad', `TURN #${this.turn} — barge-in: interrupted Alfred`);
+    }
+    this.session?.sendRealtimeInput?.({ activityStart: {} });
+    this.vadActive = true;
+    this.setMascotState('listening');
+    this.latency.mark(this.turn, 'activityStart');
+    this.log('vad', `TURN #${this.turn} — activityStart sent`, { input: this.talkMode });
+  }
+
+  /** The user turn closes (VAD offset, talk released/pressed again, mute). */
+  private userTurnEnd() {
+    this.recorder.add({ kind: 'vad', event: 'end' });
+    if (!this.vadActive) return;
+    this.session?.sendRealtimeInput?.({ activityEnd: {} });
+    this.vadActive = false;
+    this.setMascotState('thinking');
+    this.latency.mark(this.turn, 'activityEnd');
+    this.log('vad', `TURN #${this.turn} — activityEnd sent`, { input: this.talkMode });
+  }
+
+  /* ---------- Push-/toggle-to-talk, mute, keyboard shortcuts ---------- */
+  private async talkDown() {
+    if (this.talkMode === 'vad' || this.replay || this.micOpening) return;
+    if (this.talkMode === 'toggle' && this.vadActive) { this.userTurnEnd(); return; }
+    this.talkHeld = true;
+    if (!this.isRecording) {
+      this.micOpening = true;
+      try { await this.startRecording(); } finally { this.micOpening = false; }
+    }
+    // Push-to-talk released while the mic was opening: no turn
+    if (this.talkMode === 'ptt' && !this.talkHeld) return;
+    this.userTurnStart();
+  }
+
+  private talkUp() {
+    const held = this.talkHeld;
+    this.talkHeld = false;
+    if (held && this.talkMode === 'ptt') this.userTurnEnd();
+  }
+
+  private setInputMode(mode: InputMode) {
+    if (mode === this.talkMode) return;
+    // The mic is opened with or without the VAD: reopen it in the new mode
+    const reopen = this.isRecording && !this.replay;
+    if (reopen) this.stopRecording();
+    this.talkMode = mode;
+    this.log('app', 'Input mode', { mode });
+    if (reopen) this.startRecording();
+  }
+
+  private toggleMute() {
+    this.muted = !this.muted;
+    if (this.muted) { this.talkHeld = false; this.userTurnEnd(); }
+    this.log('app', this.muted ? 'Mic muted' : 'Mic unmuted');
+    this.updateStatus(this.muted ? '🔇 Muted — press M to unmute' : this.isRecording ? '🎤 Unmuted' : '🎤 Unmuted — click Start to speak');
+  }
+
+  private onKeyDown = (e: KeyboardEvent) => {
+    const action = shortcutFor(e);
+    // With the VAD, Space keeps its usual meaning (e.g. pressing a focused button)
+    if (!action || (action === 'talk' && this.talkMode === 'vad')) return;
+    e.preventDefault();
+    if (e.repeat) return;   // a held key auto-repeats
+    switch (action) {
+      case 'talk': this.talkDown(); break;
+      case 'start': this.startRecording(); break;
+      case 'stop': this.stopRecording(); break;
+      case 'reset': if (!this.isRecording) this.resetSession(); break;
+      case 'mute': this.toggleMute(); break;
+    }
+  };
+
+  private onKeyUp = (e: KeyboardEvent) => {
+    if (shortcutFor(e) !== 'talk' || this.talkMode === 'vad') return;
+    e.preventDefault();
+    this.talkUp();
+  };
+
+  /** Focus lost with the talk key down: its keyup never arrives. */
+  private onWindowBlur = () => this.talkUp();
+
   private stopRecording() {
+    if (this.replay) { this.stopReplay(); return; }
+    this.talkHeld = false;
+    this.mic.stop();
     if (!this.isRecording) return;
     this.isRecording = false;
 
-    if (this.vadActive) { this.session?.sendRealtimeInput?.({ activityEnd: {} }); this.vadActive = false; }
-
-    this.proc?.disconnect(); this.proc = undefined;
-    this.src?.disconnect();  this.src = undefined;
-    this.stream?.getTracks().forEach(t => t.stop());
-    this.stream = undefined;
+    if (this.vadActive) this.userTurnEnd();
+    else if (this.mascotState === 'listening') this.setMascotState('idle');
 
     this.updateStatus('⏸️ Stopped');
   }
 
+  private setLipSync(patch: Partial<GdmLiveAudio['lipSync']>) {
+    this.lipSync = { ...this.lipSync, ...patch };
+    this.timeline.leadMs = this.lipSync.anticipationMs;
+  }
+
+  private get vadTuner() {
+    return this.renderRoot?.querySelector('gdm-vad-tuner') ?? undefined;
+  }
+
+  private onVadChange(e: CustomEvent<Partial<VadConfig>>) {
+    this.vad = { ...this.vad, ...e.detail };
+    this.mic.configure(e.detail);
+  }
+
   // helpers
-  private updateStatus(s: string) { this.status = s; this.error = ''; this.log('STATUS ' + s); }
-  private updateError(s: string) { this.error = s; this.log('ERROR ' + s); }
-  private resetSession() { try { this.session?.close?.(); } catch {} this.initGemini(); }
-  private applyAzure() { /* per-utterance synth now; nothing to pre-create */ }
+  private updateStatus(s: string) { this.status = s; this.error = ''; this.log('app', s); }
+  private updateError(s: string) { this.error = s; this.log('app', s, undefined, 'error'); }
+  private get session() { return this.live?.session; }
+  /** ⟳: start over with a fresh context (drops the resumption handle). */
+  private resetSession() {
+    if (!this.live) { this.initGemini(); return; }
+    this.greetPending = true;
+    this.live.reset();
+  }
+
+  /* ---------- Settings profiles ---------- */
+  private loadProfile(p: SettingsProfile) {
+    this.profileName = p.name;
+    this.speechKind = p.speechProvider;
+    this.azureKey = p.azureKey;
+    this.azureRegion = p.azureRegion;
+    this.azureVoice = p.azureVoice;
+    this.autoVoice = p.autoVoice;
+    this.languageVoices = { ...p.languageVoices };
+    this.model = p.model;
+    this.persona = { ...p.persona };
+    this.expressionMode = p.expressions;
+    this.visuals = p.visuals;
+    this.setInputMode(p.inputMode);
+    this.vad = { ...p.vad };
+    this.mic.configure(this.vad);
+  }
+
+  private currentProfile(name = this.profileName): SettingsProfile {
+    return {
+      name,
+      speechProvider: this.speechKind,
+      azureKey: this.azureKey,
+      azureRegion: this.azureRegion,
+      azureVoice: this.azureVoice,
+      autoVoice: this.autoVoice,
+      languageVoices: { ...this.languageVoices },
+      model: this.model,
+      persona: { ...this.persona },
+      expressions: this.expressionMode,
+      visuals: this.visuals,
+      inputMode: this.talkMode,
+      vad: { ...this.vad },
+    };
+  }
+
+  /** Apply the selected profile; reconnects when the model or persona changes. */
+  private applyAzure() {
+    const p = this.settings.get(this.profileName);
+    if (!p) return;
+    const reconnect = p.model !== this.model || p.expressions !== this.expressionMode || JSON.stringify(p.persona) !== JSON.stringify(this.persona);
+    this.interruptSpeech();
+    this.loadProfile(p);
+    this.settings.setActive(p.name);
+    this.log('app', 'Profile applied', { name: p.name, provider: p.speechProvider, voice: p.azureVoice, model: p.model || 'auto' });
+    if (reconnect) this.resetSession();
+  }
+
+  private saveProfile(name = this.profileName) {
+    this.settings.put(this.currentProfile(name));
+    this.profileName = name;
+    this.log('app', 'Profile saved', { name, sessionOnlyKey: this.settings.sessionOnlySecrets });
+  }
+
+  private saveProfileAs() {
+    const name = prompt('Profile name', this.profileName)?.trim();
+    if (name) this.saveProfile(name);
+  }
+
+  private deleteProfile() {
+    if (!confirm(`Delete profile "${this.profileName}"?`)) return;
+    this.settings.remove(this.profileName);
+    this.profileName = this.settings.activeName;
+  }
+
+  private setSessionOnlySecrets(on: boolean) {
+    this.settings.setSessionOnlySecrets(on);
+    this.requestUpdate();
+  }
+
+  private exportProfiles() {
+    const withKeys = !!this.azureKey && confirm('Include Azure keys in the export?');
+    downloadText('alfred-profiles.json', this.settings.exportJson(withKeys), 'application/json');
+  }
+
+  private async importProfiles(file: File) {
+    try {
+      const names = this.settings.importJson(await file.text());
+      this.profileName = this.settings.activeName;
+      this.log('app', 'Profiles imported', { names });
+      this.updateStatus(`Imported ${names.length} profile(s) — "Apply profile" loads "${this.profileName}"`);
+    } catch (e: any) {
+      this.updateError('Profile import failed: ' + (e?.message || e));
+    }
+  }
+
+  /* ---------- Session recording / replay ---------- */
+  private toggleSessionRecording() {
+    if (!this.recorder.recording) {
+      this.recorder.start(this.currentProfile(), this.responseMode);
+      this.recordingSession = true;
+      this.log('app', 'Session recording started');
+      return;
+    }
+    const bundle = this.recorder.stop()!;
+    this.recordingSession = false;
+    this.log('app', 'Session recording saved', { events: bundle.events.length });
+    downloadText(`alfred-session-${bundle.created.replace(/[:.]/g, '-')}.json`, JSON.stringify(bundle), 'application/json');
+  }
+
+  private async loadReplay(file: File) {
+    let bundle: SessionBundle;
+    try { bundle = parseSessionBundle(await file.text()); }
+    catch (e: any) { this.updateError('Replay failed: ' + (e?.message || e)); return; }
+    this.startReplay(bundle);
+  }
+
+  /** Offline: close Gemini and the mic, take the recorded settings, feed the bundle through the handlers. */
+  private startReplay(bundle: SessionBundle) {
+    this.stopRecording();
+    this.interruptSpeech();
+    this.live?.close(); this.live = undefined;
+
+    this.replayRestore = { profile: this.currentProfile(), responseMode: this.responseMode };
+    this.loadProfile({ ...bundle.settings, name: this.profileName });
+    this.responseMode = bundle.responseMode;
+    this.greetPending = true;
+    this.vadActive = false;
+    this.isRecording = true;
+
+    const replay = new SessionReplay(bundle, {
+      mic: this.micEvents(),
+      onOpen: (model, resumed) => this.onGeminiOpen(model, resumed),
+      onMessage: (m) => this.onGeminiMessage(m),
+      onText: (text) => this.sendText(text),
+      onDiverge: (msg, data) => this.log('app', 'Replay: ' + msg, data, 'warn'),
+      onDone: () => this.stopReplay(),
+    });
+    this.replay = replay;
+    this.log('app', 'Replay started', { created: bundle.created, events: bundle.events.length, seconds: +(replay.duration / 1000).toFixed(1) });
+    replay.start();
+  }
+
+  /** End of the replay (or stopped): back to the operator's settings and a live session. */
+  private stopReplay() {
+    const replay = this.replay;
+    if (!replay) return;
+    replay.stop();
+    this.replay = undefined;
+    this.interruptSpeech();
+    this.isRecording = false;
+    this.vadActive = false;
+    this.setMascotState('idle');
+    if (this.replayRestore) {
+      this.loadProfile(this.replayRestore.profile);
+      this.responseMode = this.replayRestore.responseMode;
+      this.replayRestore = undefined;
+    }
+    this.updateStatus('Replay finished');
+    this.resetSession();
+  }
+
+  private toggleReplayPause() {
+    const replay = this.replay;
+    if (!replay) return;
+    if (replay.paused) replay.resume(); else replay.pause();
+    this.requestUpdate();
+  }
+
+  private stepReplay() {
+    this.replay?.step();
+    this.requestUpdate();
+  }
 
   render() {
     return html`
-      <gdm-live-audio-visuals-mascot></gdm-live-audio-visuals-mascot>
+      ${this.visuals === '2d' ? null : html`
+        <gdm-live-audio-visuals-3d .inputNode=${this.mic.output} .outputNode=${this.player?.output}></gdm-live-audio-visuals-3d>`}
+      <gdm-live-audio-visuals-mascot class=${this.visuals === '3d' ? 'hidden' : ''}
+        .blendMs=${this.lipSync.blendMs} .minHoldMs=${this.lipSync.minHoldMs}></gdm-live-audio-visuals-mascot>
 
       <div class="bar">
+        <div class="row">
+          <select @change=${(e:any)=>this.profileName=e.target.value}>
+            ${this.settings.names.map(n => html`<option .value=${n} ?selected=${n === this.profileName}>${n}</option>`)}
+          </select>
+          <div class="row3">
+            <button @click=${()=>this.saveProfile()} title="Overwrite the selected profile with the current settings">Save</button>
+            <button @click=${this.saveProfileAs}>Save as…</button>
+            <button @click=${this.deleteProfile}>Delete</button>
+          </div>
+        </div>
+        <div class="row">
+          <label class="label">
+            <input type="checkbox" .checked=${this.settings.sessionOnlySecrets}
+              @change=${(e:any)=>this.setSessionOnlySecrets(e.target.checked)} />
+            Keep Azure key for this session only (not stored)
+          </label>
+          <div class="row">
+            <button @click=${this.exportProfiles}>Export profiles</button>
+            <input type="file" accept="application/json,.json" title="Import profiles"
+              @change=${(e:any)=>{ const f = e.target.files?.[0]; if (f) this.importProfiles(f); e.target.value = ''; }} />
+          </div>
+        </div>
+
         <div class="row">
           <input placeholder="Azure Speech key" .value=${this.azureKey}
             @input=${(e:any)=>this.azureKey=e.target.value} />
@@ -395,35 +1100,160 @@ export class GdmLiveAudio extends LitElement {
           </select>
         </div>
 
+        <div class="row">
+          <div class="label">Response</div>
+          <select .value=${this.responseMode} @change=${(e:any)=>this.setResponseMode(e.target.value)}>
+            <option value="text">Gemini text → speech provider (visemes)</option>
+            <option value="audio">Gemini native audio (lower latency)</option>
+          </select>
+        </div>
+
+        <div class="row">
+          <div class="label">Persona: ${this.persona.name} (${languageName(this.persona.language)})</div>
+          <button @click=${()=>this.showPersona=!this.showPersona}>${this.showPersona ? 'Hide persona' : 'Edit persona'}</button>
+        </div>
+        ${this.showPersona ? html`
+          <gdm-persona-editor .persona=${this.persona} .voices=${AZURE_VOICES}
+            @persona-change=${(e: CustomEvent<Persona>)=>this.setPersona(e.detail)}></gdm-persona-editor>` : null}
+
+        <div class="row">
+          <div class="label">Stage view</div>
+          <select .value=${this.visuals} @change=${(e:any)=>this.visuals=e.target.value}>
+            <option value="2d">2D mascot</option>
+            <option value="3d">3D orb</option>
+            <option value="layered">Orb behind mascot</option>
+          </select>
+        </div>
+
+        <div class="row">
+          <div class="label">Mascot expressions</div>
+          <select .value=${this.expressionMode} @change=${(e:any)=>this.setExpressionMode(e.target.value)}>
+            <option value="sentiment">From text sentiment</option>
+            <option value="tags">From model [expression] tags (reconnects)</option>
+            <option value="off">Off</option>
+          </select>
+        </div>
+
+        <div class="row">
+          <div class="label">Live model</div>
+          <select .value=${this.model} @change=${(e:any)=>this.setModel(e.target.value)}>
+            <option value="">Auto (${LIVE_MODELS[0]} first)</option>
+            ${LIVE_MODELS.map(m => html`<option value=${m}>${m}</option>`)}
+          </select>
+        </div>
+
+        <div class="row">
+          <div class="label">Speech provider</div>
+          <select .value=${this.speechKind} @change=${(e:any)=>this.speechKind=e.target.value}>
+            ${SPEECH_PROVIDERS.map(p => html`<option value=${p.kind}>${p.label}</option>`)}
+          </select>
+        </div>
+
         <!-- Current voice value (you can still select or type any Azure voice name) -->
         <div class="row">
           <select .value=${this.azureVoice} @change=${(e:any)=>this.azureVoice=e.target.value}>
-            <option>en-US-JennyNeural</option>
-            <option>en-US-AriaNeural</option>
-            <option>en-GB-RyanNeural</option>
-            <option>en-US-GuyNeural</option>
-            <option>ta-IN-ValluvarNeural</option>
-            <option>ta-IN-PallaviNeural</option>
-            <option>ar-SA-HamedNeural</option>
-            <option>ar-EG-ShakirNeural</option>
-            <option>ar-AE-FahedNeural</option>
+            ${(AZURE_VOICES.includes(this.azureVoice) ? AZURE_VOICES : [this.azureVoice, ...AZURE_VOICES]).map(v => html`<option>${v}</option>`)}
+          </select>
+          <button @click=${this.applyAzure} title="Load the selected profile">Apply profile</button>
+        </div>
+
+        <div class="row">
+          <label class="label">
+            <input type="checkbox" .checked=${this.autoVoice} @change=${(e:any)=>this.autoVoice=e.target.checked} />
+            Pick voice by detected language (selected voice for Latin text)
+          </label>
+          <button @click=${()=>this.showLanguageVoices=!this.showLanguageVoices}>${this.showLanguageVoices ? 'Hide language voices' : 'Language voices'}</button>
+        </div>
+        ${this.showLanguageVoices ? html`
+          <gdm-language-voices .voices=${this.languageVoices}
+            @language-voices-change=${(e: CustomEvent<LanguageVoices>)=>this.languageVoices=e.detail}></gdm-language-voices>` : null}
+
+        <div class="row">
+          <div class="label">Lip sync: blend / min hold / anticipation (ms)</div>
+          <div class="row3">
+            <input type="number" min="0" max="300" step="10" title="Crossfade between mouth shapes" .value=${String(this.lipSync.blendMs)}
+              @change=${(e:any)=>this.setLipSync({ blendMs: Number(e.target.value) })} />
+            <input type="number" min="0" max="200" step="10" title="Shorter visemes are merged" .value=${String(this.lipSync.minHoldMs)}
+              @change=${(e:any)=>this.setLipSync({ minHoldMs: Number(e.target.value) })} />
+            <input type="number" min="0" max="200" step="10" title="Start the next shape early" .value=${String(this.lipSync.anticipationMs)}
+              @change=${(e:any)=>this.setLipSync({ anticipationMs: Number(e.target.value) })} />
+          </div>
+        </div>
+
+        <div class="row">
+          <select .value=${this.lipSyncSource} @change=${(e:any)=>this.lipSyncSource=e.target.value}>
+            <option value="auto">Mouth: visemes, audio fallback</option>
+            <option value="visemes">Mouth: provider visemes only</option>
+            <option value="audio">Mouth: audio analysis only</option>
           </select>
-          <button @click=${this.applyAzure}>Use Azure voice</button>
+          <input type="file" accept="audio/*" title="Lip-sync a pre-recorded clip"
+            @change=${(e:any)=>{ const f = e.target.files?.[0]; if (f) this.playClip(f); e.target.value = ''; }} />
+        </div>
+
+        <div class="row">
+          <div class="label">Voice activity detection</div>
+          <button @click=${()=>this.showVad=!this.showVad}>${this.showVad ? 'Hide VAD tuning' : 'Tune VAD'}</button>
+        </div>
+        ${this.showVad ? html`
+          <gdm-vad-tuner .config=${this.vad} @vad-change=${this.onVadChange}></gdm-vad-tuner>` : null}
+
+        <div class="row">
+          <div class="label">Turn-taking</div>
+          <select .value=${this.talkMode} @change=${(e:any)=>this.setInputMode(e.target.value)}>
+            ${INPUT_MODES.map(m => html`<option value=${m.mode}>${m.label}</option>`)}
+          </select>
+        </div>
+        <div class="shortcuts">
+          Shortcuts: ${SHORTCUTS.map(s => html`<kbd>${s.key}</kbd> ${s.label} · `)}(not while typing)
+        </div>
+
+        <div class="row">
+          <div class="label">Session${this.replay ? ` replay${this.replay.paused ? ` (paused, next: ${this.replay.next || '–'})` : '…'}` : ''}</div>
+          <div class="row3">
+            <button @click=${this.toggleSessionRecording} ?disabled=${!!this.replay}>${this.recordingSession ? '■ Save recording' : '● Record session'}</button>
+            ${this.replay ? html`
+              <button @click=${this.toggleReplayPause}>${this.replay.paused ? 'Resume' : 'Pause'}</button>
+              <button @click=${this.stepReplay} ?disabled=${!this.replay.paused} title="Fire the next recorded event">Step</button>` : html`
+              <input type="file" accept="application/json,.json" title="Replay a recorded session (offline)" ?disabled=${this.recordingSession}
+                @change=${(e:any)=>{ const f = e.target.files?.[0]; if (f) this.loadReplay(f); e.target.value = ''; }} />`}
+          </div>
+        </div>
+
+        <div class="row">
+          <div class="label">Diagnostics</div>
+          <div class="row">
+            <button @click=${()=>this.showDebug=!this.showDebug}>${this.showDebug ? 'Hide debug log' : 'Show debug log'}</button>
+            <button @click=${()=>this.showLatency=!this.showLatency}>${this.showLatency ? 'Hide latency' : 'Show latency'}</button>
+          </div>
         </div>
       </div>
 
       <div class="controls">
-        <button title="Reset" @click=${this.resetSession} ?disabled=${this.isRecording}>⟳</button>
-        <button title="Start" @click=${this.startRecording} ?disabled=${this.isRecording}>●</button>
-        <button title="Stop"  @click=${this.stopRecording} ?disabled=${!this.isRecording}>■</button>
+        <button title="Reset (R)" @click=${this.resetSession} ?disabled=${this.isRecording}>⟳</button>
+        <button title="Start (S)" @click=${this.startRecording} ?disabled=${this.isRecording}>●</button>
+        <button title="Stop (X)"  @click=${this.stopRecording} ?disabled=${!this.isRecording}>■</button>
+        ${this.talkMode === 'vad' ? null : html`
+          <button class="talk ${this.vadActive ? 'on' : ''}" ?disabled=${this.muted || !!this.replay}
+            title=${this.talkMode === 'ptt' ? 'Hold to talk (Space)' : 'Press to start / end your turn (Space)'}
+            @pointerdown=${this.talkDown} @pointerup=${this.talkUp} @pointerleave=${this.talkUp} @pointercancel=${this.talkUp}>🎙</button>`}
+        <button class=${this.muted ? 'muted' : ''} title="Mute / unmute mic (M)" @click=${this.toggleMute}>${this.muted ? '🔇' : '🎤'}</button>
       </div>
 
-      <div class="status">${this.error || this.status}</div>
+      <form class="compose" @submit=${this.onCompose}>
+        <input type="text" placeholder="Type to Alfred…" aria-label="Message to Alfred" .value=${this.draft}
+          ?disabled=${!!this.replay} @input=${(e:any)=>this.draft=e.target.value} />
+        <button type="submit" ?disabled=${!!this.replay || !this.draft.trim()}>Send</button>
+      </form>
+
+      <div class="status ${this.visuals === '2d' ? '' : 'dark'}">${this.error || this.status}</div>
+
+      <gdm-transcript-panel .transcript=${this.transcript}></gdm-transcript-panel>
+
+      ${this.showLatency ? html`
+        <gdm-latency-overlay .tracker=${this.latency} @latency-close=${()=>this.showLatency=false}></gdm-latency-overlay>` : null}
 
       ${this.showDebug ? html`
-        <div class="debug">
-${this.logs.join('\n')}
-        </div>` : null}
+        <gdm-debug-panel .log=${this.debugLog} @debug-close=${()=>this.showDebug=false}></gdm-debug-panel>` : null}
     `;
   }
 }
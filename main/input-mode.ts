@@ -0,0 +1,39 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/**
+ * How user turns are delimited, and the kiosk keyboard shortcuts.
+ *   vad    — the mic worklet's VAD opens and closes turns (default)
+ *   ptt    — push-to-talk: a turn lasts while the talk key/button is held
+ *   toggle — toggle-to-talk: press once to open a turn, again to close it
+ * In the manual modes the mic streams every frame; only frames inside a
+ * turn are sent to Gemini.
+ */
+
+export type InputMode = 'vad' | 'ptt' | 'toggle';
+
+export const INPUT_MODES: Array<{ mode: InputMode; label: string }> = [
+  { mode: 'vad', label: 'Automatic (VAD)' },
+  { mode: 'ptt', label: 'Push-to-talk (hold Space)' },
+  { mode: 'toggle', label: 'Toggle-to-talk (press Space)' },
+];
+
+export type ShortcutAction = 'talk' | 'start' | 'stop' | 'reset' | 'mute';
+
+export const SHORTCUTS: Array<{ action: ShortcutAction; key: string; label: string }> = [
+  { action: 'talk', key: 'Space', label: 'Talk (push-/toggle-to-talk)' },
+  { action: 'start', key: 'S', label: 'Start mic' },
+  { action: 'stop', key: 'X', label: 'Stop mic' },
+  { action: 'reset', key: 'R', label: 'Reset session' },
+  { action: 'mute', key: 'M', label: 'Mute / unmute mic' },
+];
+
+/** Shortcut for a key event; none with modifiers or while typing into a field. */
+export function shortcutFor(e: KeyboardEvent): ShortcutAction | undefined {
+  if (e.ctrlKey || e.metaKey || e.altKey) return undefined;
+  const target = e.composedPath()[0] as HTMLElement | undefined;
+  if (target && (/^(INPUT|TEXTAREA|SELECT)$/.test(target.tagName) || target.isContentEditable)) return undefined;
+  const key = e.code === 'Space' ? 'Space' : e.key.toUpperCase();
+  return SHORTCUTS.find(s => s.key === key)?.action;
+}
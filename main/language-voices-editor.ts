@@ -0,0 +1,49 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { LitElement, css, html } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { DEFAULT_LANGUAGE_VOICES, type LanguageVoices } from './language-voices.ts';
+import { languageName } from './persona.ts';
+
+/**
+ * Default voice per detected language. Fires `language-voices-change` with
+ * the full LanguageVoices map in `detail`.
+ */
+@customElement('gdm-language-voices')
+export class GdmLanguageVoices extends LitElement {
+  @property({ attribute: false }) voices: LanguageVoices = {};
+
+  static styles = css`
+    :host { display:block; font:12px system-ui,sans-serif; color:#ddd; }
+    .grid { display:grid; grid-template-columns:repeat(2, auto 1fr); gap:4px 8px; align-items:center; }
+    input, button { font:13px system-ui,sans-serif; padding:4px 6px; border-radius:6px; border:1px solid #ddd; }
+    .actions { display:flex; justify-content:flex-end; margin-top:6px; }
+  `;
+
+  private emit(voices: LanguageVoices) {
+    this.dispatchEvent(new CustomEvent('language-voices-change', { detail: voices, bubbles: true, composed: true }));
+  }
+
+  render() {
+    return html`
+      <div class="grid">
+        ${Object.keys(DEFAULT_LANGUAGE_VOICES).map(lang => html`
+          <label title=${lang}>${languageName(lang)}</label>
+          <input .value=${this.voices[lang] ?? ''} placeholder=${DEFAULT_LANGUAGE_VOICES[lang]}
+            @change=${(e:any)=>this.emit({ ...this.voices, [lang]: e.target.value.trim() || DEFAULT_LANGUAGE_VOICES[lang] })} />`)}
+      </div>
+      <div class="actions">
+        <button @click=${()=>this.emit({ ...DEFAULT_LANGUAGE_VOICES })}>Reset to defaults</button>
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'gdm-language-voices': GdmLanguageVoices;
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/**
+ * Per-segment language routing for TTS. Text is split into runs by Unicode
+ * script (Tamil, Arabic, Devanagari, ...); Latin and neutral characters stay
+ * with the base voice. Each run is mapped to a voice from a configurable
+ * language -> voice table, so Gemini answering in Tamil is read by a Tamil
+ * voice even when the operator picked an English one.
+ */
+
+/** Language (primary subtag) -> voice name. */
+export type LanguageVoices = Record<string, string>;
+
+export const DEFAULT_LANGUAGE_VOICES: LanguageVoices = {
+  ta: 'ta-IN-ValluvarNeural',
+  ar: 'ar-SA-HamedNeural',
+  hi: 'hi-IN-MadhurNeural',
+  bn: 'bn-IN-BashkarNeural',
+  te: 'te-IN-MohanNeural',
+  kn: 'kn-IN-GaganNeural',
+  ml: 'ml-IN-MidhunNeural',
+  ja: 'ja-JP-KeitaNeural',
+  zh: 'zh-CN-YunxiNeural',
+  ko: 'ko-KR-InJoonNeural',
+  ru: 'ru-RU-DmitryNeural',
+  el: 'el-GR-NestorasNeural',
+  he: 'he-IL-AvriNeural',
+  th: 'th-TH-NiwatNeural',
+};
+
+const SCRIPTS: Array<{ lang: string; re: RegExp }> = [
+  { lang: 'ta', re: /\p{Script=Tamil}/u },
+  { lang: 'ar', re: /\p{Script=Arabic}/u },
+  { lang: 'hi', re: /\p{Script=Devanagari}/u },
+  { lang: 'bn', re: /\p{Script=Bengali}/u },
+  { lang: 'te', re: /\p{Script=Telugu}/u },
+  { lang: 'kn', re: /\p{Script=Kannada}/u },
+  { lang: 'ml', re: /\p{Script=Malayalam}/u },
+  { lang: 'ja', re: /[\p{Script=Hiragana}\p{Script=Katakana}]/u },
+  { lang: 'zh', re: /\p{Script=Han}/u },
+  { lang: 'ko', re: /\p{Script=Hangul}/u },
+  { lang: 'ru', re: /\p{Script=Cyrillic}/u },
+  { lang: 'el', re: /\p{Script=Greek}/u },
+  { lang: 'he', re: /\p{Script=Hebrew}/u },
+  { lang: 'th', re: /\p{Script=Thai}/u },
+];
+
+const LETTER = /[\p{L}\p{M}]/u;
+const KANA = /[\p{Script=Hiragana}\p{Script=Katakana}]/u;
+// Short Latin runs between other-script text (brand names, "Wi-Fi") stay with their neighbour
+const MIN_SWITCH_LETTERS = 8;
+
+export interface LanguageRun {
+  lang: string;           // primary subtag, '' = base (Latin / neutral)
+  text: string;
+}
+
+/** Split text into runs of one script; punctuation and spaces join the current run. */
+export function splitByLanguage(text: string): LanguageRun[] {
+  const hasKana = KANA.test(text);
+  const runs: LanguageRun[] = [];
+  let cur: LanguageRun | undefined;
+  for (const ch of text) {
+    let lang = cur?.lang ?? '';
+    if (LETTER.test(ch)) {
+      lang = SCRIPTS.find(s => s.re.test(ch))?.lang ?? '';
+      if (lang === 'zh' && hasKana) lang = 'ja';
+    }
+    if (!cur || lang !== cur.lang) runs.push(cur = { lang, text: '' });
+    cur.text += ch;
+  }
+  return absorbShortRuns(runs);
+}
+
+function absorbShortRuns(runs: LanguageRun[]): LanguageRun[] {
+  const out: LanguageRun[] = [];
+  for (const run of runs) {
+    const prev = out[out.length - 1];
+    const letters = [...run.text].filter(ch => LETTER.test(ch)).length;
+    if (prev && (prev.lang === run.lang || (run.lang === '' && letters < MIN_SWITCH_LETTERS))) prev.text += run.text;
+    else out.push({ ...run });
+  }
+  // A short Latin lead-in ("OK, ...") goes with what follows
+  if (out.length > 1 && out[0].lang === '' && [...out[0].text].filter(ch => LETTER.test(ch)).length < MIN_SWITCH_LETTERS) {
+    out[1].text = out[0].text + out[1].text;
+    out.shift();
+  }
+  return out;
+}
+
+/** 'ta-IN' for 'ta-IN-ValluvarNeural'; '' if the name has no locale prefix. */
+export function voiceLocale(voice: string) {
+  return /^[a-z]{2,3}-[A-Z]{2}/.exec(voice)?.[0] ?? '';
+}
+
+/** Multilingual voices speak every language themselves (switch with <lang>, not <voice>). */
+export function isMultilingualVoice(voice: string) {
+  return /Multilingual/i.test(voice);
+}
+
+/**
+ * Voice for a run: the base voice for Latin text, for its own language and for
+ * multilingual voices; otherwise the mapped voice (base voice if unmapped).
+ */
+export function voiceForLanguage(lang: string, baseVoice: string, voices: LanguageVoices) {
+  if (!lang || isMultilingualVoice(baseVoice) || voiceLocale(baseVoice).startsWith(lang + '-')) return baseVoice;
+  return voices[lang] || baseVoice;
+}
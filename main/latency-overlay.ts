@@ -0,0 +1,127 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { LitElement, css, html } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { LATENCY_MARKS, type LatencyMark, type LatencyTracker, type TurnTiming } from './latency.ts';
+
+const SHOWN_TURNS = 8;
+
+/** Waterfall phases: the bar ending at `to` starts at the previous present mark. */
+const PHASES: Array<{ to: LatencyMark; label: string; color: string }> = [
+  { to: 'activityStart', label: 'VAD', color: '#9e9e9e' },
+  { to: 'activityEnd', label: 'User', color: '#42a5f5' },
+  { to: 'firstText', label: 'Gemini', color: '#ab47bc' },
+  { to: 'synthStart', label: 'Segment', color: '#ffa726' },
+  { to: 'firstAudioWrite', label: 'TTS', color: '#ef5350' },
+  { to: 'firstAudible', label: 'Buffer', color: '#66bb6a' },
+];
+
+const ms = (v: number) => Number.isFinite(v) ? `${Math.round(v)}` : '–';
+
+/**
+ * Latency overlay: per-turn waterfall (speech onset → first audible sample)
+ * and rolling p50/p95 per metric, filterable by Live model. Call
+ * requestUpdate() when the tracker changes; fires `latency-close` to hide.
+ */
+@customElement('gdm-latency-overlay')
+export class GdmLatencyOverlay extends LitElement {
+  @property({ attribute: false }) tracker?: LatencyTracker;
+  @state() private collapsed = false;
+  @state() private model = '';
+
+  static styles = css`
+    :host {
+      position:fixed; right:16px; bottom:16px; width:min(40vw,460px); z-index:40;
+      font:12px system-ui,sans-serif; color:#222;
+    }
+    .panel { background:#fafafa; border:1px solid #ddd; border-radius:12px; box-shadow:0 6px 24px rgba(0,0,0,.15); }
+    header { display:flex; gap:6px; align-items:center; padding:8px 10px; border-bottom:1px solid #eee; }
+    header b { flex:1; }
+    button, select { font:12px system-ui,sans-serif; padding:3px 8px; border-radius:6px; border:1px solid #ddd; background:#fff; cursor:pointer; }
+    .body { padding:8px 10px; display:grid; gap:8px; }
+    .turn { display:grid; grid-template-columns:3em 1fr 4em; gap:6px; align-items:center; }
+    .track { position:relative; height:12px; background:#eee; border-radius:3px; overflow:hidden; }
+    .seg { position:absolute; top:0; bottom:0; }
+    .tick { position:absolute; top:-2px; bottom:-2px; width:2px; background:#333; }
+    .total { text-align:right; font-variant-numeric:tabular-nums; }
+    .legend { display:flex; flex-wrap:wrap; gap:8px; color:#666; }
+    .legend i { display:inline-block; width:10px; height:10px; border-radius:2px; margin-right:3px; vertical-align:-1px; }
+    table { width:100%; border-collapse:collapse; font-variant-numeric:tabular-nums; }
+    th, td { padding:2px 4px; text-align:right; }
+    th:first-child, td:first-child { text-align:left; }
+    .empty { color:#999; }
+  `;
+
+  private renderTurn(t: TurnTiming, scale: number) {
+    const m = t.marks;
+    const t0 = m.speechOnset ?? Math.min(...Object.values(m));
+    const x = (v: number) => `${(v - t0) / scale * 100}%`;
+    const w = (d: number) => `${Math.max(0, d) / scale * 100}%`;
+    let prev = t0;
+    const segs = PHASES.map(p => {
+      const end = m[p.to];
+      if (end === undefined) return null;
+      const seg = html`<div class="seg" title="${p.label}: ${ms(end - prev)} ms" style="left:${x(prev)};width:${w(end - prev)};background:${p.color}"></div>`;
+      prev = end;
+      return seg;
+    });
+    const title = LATENCY_MARKS.filter(k => m[k.mark] !== undefined).map(k => `${k.label}: +${ms(m[k.mark]! - t0)} ms`).join('\n');
+    const total = (m.firstAudible ?? NaN) - (m.activityEnd ?? NaN);
+    return html`
+      <div class="turn" title=${`${t.model}\n${title}`}>
+        <span>#${t.turn}</span>
+        <div class="track">
+          ${segs}
+          ${m.turnComplete !== undefined ? html`<div class="tick" title="turnComplete" style="left:${x(m.turnComplete)}"></div>` : null}
+        </div>
+        <span class="total" title="activityEnd → first audible">${ms(total)} ms</span>
+      </div>`;
+  }
+
+  render() {
+    const tracker = this.tracker;
+    const turns = tracker?.turns.slice(-SHOWN_TURNS).reverse() ?? [];
+    const span = (t: TurnTiming) => {
+      const v = Object.values(t.marks);
+      return Math.max(...v) - (t.marks.speechOnset ?? Math.min(...v));
+    };
+    const scale = Math.max(1, ...turns.map(span));
+    const stats = tracker?.stats(this.model || undefined) ?? [];
+
+    return html`
+      <div class="panel">
+        <header>
+          <b>Latency</b>
+          <select .value=${this.model} @change=${(e:any)=>this.model=e.target.value} title="Stats for one Live model">
+            <option value="">All models</option>
+            ${tracker?.models.map(m => html`<option value=${m}>${m}</option>`)}
+          </select>
+          <button @click=${()=>tracker?.clear()}>Clear</button>
+          <button @click=${()=>this.collapsed=!this.collapsed}>${this.collapsed ? '▸' : '▾'}</button>
+          <button title="Hide" @click=${()=>this.dispatchEvent(new CustomEvent('latency-close', { bubbles: true, composed: true }))}>×</button>
+        </header>
+        ${this.collapsed ? null : html`
+          <div class="body">
+            ${turns.length ? turns.map(t => this.renderTurn(t, scale)) : html`<div class="empty">No turns yet.</div>`}
+            <div class="legend">
+              ${PHASES.map(p => html`<span><i style="background:${p.color}"></i>${p.label}</span>`)}
+              <span><i style="background:#333;width:2px"></i>turnComplete</span>
+            </div>
+            <table>
+              <tr><th>Metric (ms)</th><th>n</th><th>p50</th><th>p95</th></tr>
+              ${stats.map(s => html`<tr><td>${s.metric.label}</td><td>${s.n}</td><td>${ms(s.p50)}</td><td>${ms(s.p95)}</td></tr>`)}
+            </table>
+          </div>`}
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'gdm-latency-overlay': GdmLatencyOverlay;
+  }
+}
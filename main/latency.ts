@@ -0,0 +1,92 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/**
+ * Per-turn latency marks (performance.now() ms) from speech onset to the
+ * first audible sample of the answer, plus rolling p50/p95 of the intervals
+ * between them, overall and per Live model. Only the first mark of each
+ * kind counts; marks for turns that were never begun are ignored.
+ */
+
+export type LatencyMark =
+  | 'speechOnset' | 'activityStart' | 'activityEnd'
+  | 'firstText' | 'turnComplete'
+  | 'synthStart' | 'firstAudioWrite' | 'firstAudible';
+
+export const LATENCY_MARKS: Array<{ mark: LatencyMark; label: string }> = [
+  { mark: 'speechOnset', label: 'Speech onset' },
+  { mark: 'activityStart', label: 'activityStart sent' },
+  { mark: 'activityEnd', label: 'activityEnd sent' },
+  { mark: 'firstText', label: 'First Gemini part' },
+  { mark: 'turnComplete', label: 'turnComplete' },
+  { mark: 'synthStart', label: 'Synthesis start' },
+  { mark: 'firstAudioWrite', label: 'First audio write' },
+  { mark: 'firstAudible', label: 'First audible sample' },
+];
+
+export interface LatencyMetric { key: string; label: string; from: LatencyMark; to: LatencyMark }
+
+export const LATENCY_METRICS: LatencyMetric[] = [
+  { key: 'vad', label: 'VAD onset hold', from: 'speechOnset', to: 'activityStart' },
+  { key: 'gemini', label: 'Gemini first part', from: 'activityEnd', to: 'firstText' },
+  { key: 'geminiTurn', label: 'Gemini turn', from: 'activityEnd', to: 'turnComplete' },
+  { key: 'tts', label: 'TTS first audio', from: 'synthStart', to: 'firstAudioWrite' },
+  { key: 'playout', label: 'Playout buffer', from: 'firstAudioWrite', to: 'firstAudible' },
+  { key: 'total', label: 'End of speech → audible', from: 'activityEnd', to: 'firstAudible' },
+];
+
+export interface TurnTiming {
+  turn: number;
+  model: string;
+  marks: Partial<Record<LatencyMark, number>>;
+}
+
+export interface MetricStats { metric: LatencyMetric; n: number; p50: number; p95: number }
+
+export function percentile(sorted: number[], p: number) {
+  if (!sorted.length) return NaN;
+  const i = Math.min(sorted.length - 1, Math.max(0, Math.ceil(p / 100 * sorted.length) - 1));
+  return sorted[i];
+}
+
+export class LatencyTracker {
+  private list: TurnTiming[] = [];
+
+  constructor(private onChange: () => void = () => {}, private keep = 50) {}
+
+  get turns(): readonly TurnTiming[] { return this.list; }
+
+  begin(turn: number, model: string, marks: TurnTiming['marks'] = {}) {
+    this.list = this.list.filter(t => t.turn !== turn);
+    this.list.push({ turn, model, marks: { ...marks } });
+    if (this.list.length > this.keep) this.list.splice(0, this.list.length - this.keep);
+    this.onChange();
+  }
+
+  mark(turn: number, mark: LatencyMark, t = performance.now()) {
+    const timing = this.list.find(x => x.turn === turn);
+    if (!timing || timing.marks[mark] !== undefined) return;
+    timing.marks[mark] = t;
+    this.onChange();
+  }
+
+  clear() {
+    this.list = [];
+    this.onChange();
+  }
+
+  /** Rolling stats over the kept turns; `model` restricts to one Live model. */
+  stats(model?: string): MetricStats[] {
+    const turns = model === undefined ? this.list : this.list.filter(t => t.model === model);
+    return LATENCY_METRICS.map(metric => {
+      const values = turns
+        .map(t => (t.marks[metric.to] ?? NaN) - (t.marks[metric.from] ?? NaN))
+        .filter(v => Number.isFinite(v) && v >= 0)
+        .sort((a, b) => a - b);
+      return { metric, n: values.length, p50: percentile(values, 50), p95: percentile(values, 95) };
+    });
+  }
+
+  get models() { return [...new Set(this.list.map(t => t.model))]; }
+}
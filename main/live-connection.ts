@@ -0,0 +1,181 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/**
+ * Gemini Live connection manager:
+ *  - tries the models in order (re-read on every connect, so a preference change applies)
+ *  - keeps the latest session-resumption handle and reconnects with it
+ *    (exponential backoff + jitter) when the socket drops; the handle is only
+ *    dropped when the server rejects it or after repeated failures with it
+ *  - on `goAway` lets the model turn in flight finish, then resumes on the
+ *    latest handle (right away if the socket closes first)
+ *  - `reset()` during a connect attempt wins: the stale attempt is dropped
+ *  - enables context-window compression so long kiosk sessions don't hit the limit
+ * `session` is only set while a socket is open, so `session?.send…` is safe.
+ */
+import type { GoogleGenAI, LiveConnectConfig, LiveServerMessage, Session } from '@google/genai';
+
+export interface LiveConnectionEvents {
+  /** A session is open; `resumed` when it continues the previous context. */
+  onOpen?(model: string, resumed: boolean): void;
+  onMessage(message: LiveServerMessage): void;
+  onStatus?(text: string): void;
+  onError?(message: string): void;
+}
+
+const BACKOFF_MIN_MS = 500;
+const BACKOFF_MAX_MS = 30000;
+const HANDLE_MAX_FAILURES = 3;     // failed connects with one handle before starting fresh
+const BAD_HANDLE = /handle|resum|expired/i;
+
+interface Conn { retired: boolean }
+
+export class LiveConnection {
+  session?: Session;
+  model = '';
+  private conn?: Conn;
+  private handle?: string;         // latest resumable handle from sessionResumptionUpdate
+  private attempt = 0;
+  private handleFailures = 0;      // consecutive failed connects with the current handle
+  private retryTimer?: number;
+  private connecting = false;
+  private closed = false;          // close() called: no more reconnects
+  private generation = 0;          // bumped by reset(); attempts from older generations are discarded
+  private turnOpen = false;        // the current session is streaming a model turn
+  private handoff = false;         // goAway seen: switch sessions once that turn is over
+
+  constructor(
+    private ai: GoogleGenAI,
+    private models: () => string[],
+    private config: () => LiveConnectConfig,
+    private events: LiveConnectionEvents,
+  ) {}
+
+  get resumable() { return !!this.handle; }
+
+  /** Connect (resuming the previous context when a handle is known). */
+  async connect(): Promise<boolean> {
+    if (this.connecting) return false;
+    this.connecting = true;
+    this.closed = false;
+    clearTimeout(this.retryTimer);
+
+    const handle = this.handle;
+    const gen = this.generation;
+    let stale = false;
+    let lastErr: any;
+    try {
+      for (const model of this.models()) {
+        const conn: Conn = { retired: false };
+        try {
+          const session = await this.ai.live.connect({
+            model,
+            config: {
+              ...this.config(),
+              sessionResumption: { handle },
+              contextWindowCompression: { slidingWindow: {} },
+            },
+            callbacks: {
+              onmessage: (m: LiveServerMessage) => { if (!conn.retired) this.onMessage(m); },
+              onerror: (e: ErrorEvent) => { if (!conn.retired) this.events.onError?.('Gemini error: ' + e.message); },
+              onclose: (e: CloseEvent) => { if (!conn.retired && conn === this.conn) this.onClosed(e); },
+            },
+          });
+          if (this.closed) { conn.retired = true; try { session.close(); } catch {} return false; }
+          if (gen !== this.generation) { conn.retired = true; try { session.close(); } catch {} stale = true; break; }
+
+          // Swap in the new session, then retire the old one (goAway handoff)
+          this.retire();
+          this.conn = conn;
+          this.session = session;
+          this.model = model;
+          this.attempt = 0;
+          this.handleFailures = 0;
+          this.turnOpen = false;
+          this.handoff = false;
+          this.events.onOpen?.(model, !!handle);
+          return true;
+        } catch (err) {
+          conn.retired = true; lastErr = err;
+          if (gen !== this.generation) { stale = true; break; }
+        }
+      }
+    } finally {
+      this.connecting = false;
+    }
+    // reset() while this attempt was in flight: it used the old config and handle, start over
+    if (stale && !this.closed) return this.connect();
+
+    const msg = String(lastErr?.message || lastErr);
+    this.events.onError?.('Failed to connect to Gemini Live: ' + msg);
+    // Keep the context through transport errors; start fresh once the handle looks dead
+    if (handle && handle === this.handle && (BAD_HANDLE.test(msg) || ++this.handleFailures >= HANDLE_MAX_FAILURES)) this.dropHandle();
+    this.scheduleReconnect('connect failed');
+    return false;
+  }
+
+  /** Fresh session: forget the resumption handle and reconnect. */
+  reset() {
+    this.generation++;
+    this.dropHandle();
+    this.attempt = 0;
+    this.handoff = false;
+    this.retire();
+    return this.connect();
+  }
+
+  /** Close for good (no reconnect). */
+  close() {
+    this.closed = true;
+    clearTimeout(this.retryTimer);
+    this.retire();
+  }
+
+  private onMessage(m: LiveServerMessage) {
+    const upd = m.sessionResumptionUpdate;
+    if (upd?.resumable && upd.newHandle) { this.handle = upd.newHandle; this.handleFailures = 0; }
+
+    const sc = m.serverContent;
+    if (sc?.turnComplete || sc?.interrupted) this.turnOpen = false;
+    else if (sc?.modelTurn) this.turnOpen = true;
+
+    if (m.goAway) {
+      this.events.onStatus?.(`Server going away (${m.goAway.timeLeft ?? '?'} left) — switching session after this turn…`);
+      this.handoff = true;
+    }
+    this.events.onMessage(m);
+    if (this.handoff && !this.turnOpen) { this.handoff = false; this.connect(); }
+  }
+
+  private onClosed(e: CloseEvent) {
+    this.conn = undefined;
+    this.session = undefined;
+    if (this.closed) return;
+    if (BAD_HANDLE.test(e.reason)) this.dropHandle();
+    // Cut off before the handoff turn finished: resume right away
+    if (this.handoff) { this.handoff = false; this.connect(); return; }
+    this.scheduleReconnect(e.reason || `code ${e.code}`);
+  }
+
+  private scheduleReconnect(reason: string) {
+    if (this.closed) return;
+    clearTimeout(this.retryTimer);
+    const base = Math.min(BACKOFF_MAX_MS, BACKOFF_MIN_MS * 2 ** this.attempt++);
+    const delay = Math.round(base * (0.8 + Math.random() * 0.4));
+    this.events.onStatus?.(`Connection lost (${reason}) — reconnecting in ${(delay / 1000).toFixed(1)} s (attempt ${this.attempt})…`);
+    this.retryTimer = window.setTimeout(() => this.connect(), delay);
+  }
+
+  private dropHandle() {
+    this.handle = undefined;
+    this.handleFailures = 0;
+  }
+
+  private retire() {
+    if (this.conn) this.conn.retired = true;
+    try { this.session?.close(); } catch {}
+    this.conn = undefined;
+    this.session = undefined;
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/**
+ * Mic capture on an AudioWorklet: the context runs at the device's native
+ * rate and the worklet (mic-worklet.ts) resamples to 16 kHz, frames PCM16
+ * and runs the VAD off the main thread. Frames are ready for createBlob().
+ */
+import { processor } from './mic-worklet.ts';
+import type { VadConfig } from './vad.ts';
+
+export interface VadLevel { rms: number; floor: number; onset: number; offset: number }
+
+export interface MicCaptureEvents {
+  onSpeechStart?(): void;
+  /** 16 kHz PCM16 frame; with a VAD only frames inside a speech segment (pre-roll first) arrive. */
+  onFrame?(pcm: Int16Array, rms: number): void;
+  onSpeechEnd?(): void;
+  /** Mic level vs. the VAD gates, ~10 times per second. */
+  onLevel?(level: VadLevel): void;
+}
+
+export const MIC_SAMPLE_RATE = 16000;
+const FRAME_SIZE = 256; // ~16 ms @16k
+
+export class MicCapture {
+  readonly ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+  /** Raw mic signal while capturing (tap it for analysers; not routed to the speakers). */
+  readonly output = this.ctx.createGain();
+  private moduleReady?: Promise<void>;
+  private stream?: MediaStream;
+  private src?: MediaStreamAudioSourceNode;
+  private node?: AudioWorkletNode;
+
+  /** Opens the mic and starts posting frames. Pass `vad: null` to stream every frame. */
+  async start(events: MicCaptureEvents, vad: VadConfig | null) {
+    await this.ctx.resume();
+    this.moduleReady ??= this.ctx.audioWorklet.addModule(
+      URL.createObjectURL(new Blob([processor], { type: 'application/javascript' }))
+    );
+    await this.moduleReady;
+
+    this.stream = await navigator.mediaDevices.getUserMedia({
+      audio: { channelCount: 1, noiseSuppression: true, echoCancellation: true, autoGainControl: false },
+      video: false
+    });
+    this.src = this.ctx.createMediaStreamSource(this.stream);
+    this.node = new AudioWorkletNode(this.ctx, 'mic-capture', {
+      numberOfInputs: 1,
+      numberOfOutputs: 0,
+      channelCount: 1,
+      channelCountMode: 'explicit',
+      processorOptions: { targetRate: MIC_SAMPLE_RATE, frameSize: FRAME_SIZE, vad },
+    });
+    this.node.port.onmessage = (e: MessageEvent) => {
+      const m = e.data;
+      if (m.type === 'frame') events.onFrame?.(m.pcm, m.rms);
+      else if (m.type === 'start') events.onSpeechStart?.();
+      else if (m.type === 'end') events.onSpeechEnd?.();
+      else if (m.type === 'level') events.onLevel?.(m);
+    };
+    this.src.connect(this.node);
+    this.src.connect(this.output);
+  }
+
+  /** Update VAD thresholds of the running worklet. */
+  configure(vad: Partial<VadConfig>) {
+    this.node?.port.postMessage({ type: 'config', vad });
+  }
+
+  stop() {
+    if (this.node) { this.node.port.onmessage = null; this.node.disconnect(); this.node = undefined; }
+    this.src?.disconnect(); this.src = undefined;
+    this.stream?.getTracks().forEach(t => t.stop());
+    this.stream = undefined;
+  }
+}
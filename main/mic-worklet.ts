@@ -0,0 +1,112 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/**
+ * AudioWorklet processor source for mic capture (loaded from a Blob URL by
+ * MicCapture). Runs on the audio thread:
+ *   - resamples the device's native rate to `targetRate` (default 16 kHz)
+ *   - frames the result into PCM16 chunks of `frameSize` samples
+ *   - optional VoiceActivityDetector (`vad` options); without it every frame is posted
+ *
+ * Messages to the main thread:
+ *   { type: 'start' } (followed by the pre-roll frames) | { type: 'frame', pcm: Int16Array, rms: number }
+ *   | { type: 'end' } | { type: 'level', rms, floor, onset, offset } (~10/s, VAD only)
+ * Messages from the main thread:
+ *   { type: 'config', vad: Partial<VadConfig> }
+ */
+import { VoiceActivityDetector } from './vad.ts';
+
+const processor = `
+const VoiceActivityDetector = (${VoiceActivityDetector});
+
+class MicCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const o = options.processorOptions || {};
+    this.targetRate = o.targetRate || 16000;
+    this.ratio = sampleRate / this.targetRate;
+    this.frameSize = o.frameSize || 256;
+    this.frameMs = this.frameSize / this.targetRate * 1000;
+    this.frame = new Int16Array(this.frameSize);
+    this.fill = 0;
+    this.sumSq = 0;
+
+    // Resampler state: fractional read position (may be -1..0 = previous quantum's last sample)
+    this.pos = 0;
+    this.prev = 0;
+    // One-pole low-pass ahead of decimation (~0.45 * targetRate) to tame aliasing
+    this.lp = 0;
+    this.alpha = this.ratio > 1 ? 1 - Math.exp(-2 * Math.PI * 0.45 * this.targetRate / sampleRate) : 1;
+
+    // VAD (null = stream every frame)
+    const post = (pcm, rms) => this.port.postMessage({ type: 'frame', pcm, rms }, [pcm.buffer]);
+    this.vad = o.vad ? new VoiceActivityDetector(o.vad, this.targetRate, {
+      onSpeechStart: (preroll) => {
+        this.port.postMessage({ type: 'start' });
+        for (const pcm of preroll) post(pcm, 0);
+      },
+      onFrame: post,
+      onSpeechEnd: () => this.port.postMessage({ type: 'end' }),
+    }) : null;
+    this.post = post;
+    this.levelMs = 0;
+
+    this.port.onmessage = (e) => {
+      if (e.data && e.data.type === 'config' && this.vad) this.vad.configure(e.data.vad);
+    };
+  }
+
+  process(inputs) {
+    const input = inputs[0] && inputs[0][0];
+    if (!input) return true;
+
+    const n = input.length;
+    if (!this.buf || this.buf.length !== n) this.buf = new Float32Array(n);
+    const x = this.buf;
+    for (let k = 0; k < n; k++) { this.lp += this.alpha * (input[k] - this.lp); x[k] = this.lp; }
+
+    while (this.pos < n - 1) {
+      const i = Math.floor(this.pos);
+      const frac = this.pos - i;
+      const a = i < 0 ? this.prev : x[i];
+      const b = x[i + 1];
+      this.push(a + (b - a) * frac);
+      this.pos += this.ratio;
+    }
+    this.pos -= n;
+    this.prev = x[n - 1];
+    return true;
+  }
+
+  push(s) {
+    const v = s < -1 ? -1 : s > 1 ? 1 : s;
+    this.frame[this.fill++] = v < 0 ? v * 0x8000 : v * 0x7fff;
+    this.sumSq += v * v;
+    if (this.fill < this.frameSize) return;
+
+    const pcm = this.frame;
+    const rms = Math.sqrt(this.sumSq / this.frameSize);
+    this.frame = new Int16Array(this.frameSize);
+    this.fill = 0;
+    this.sumSq = 0;
+    this.onFrame(pcm, rms);
+  }
+
+  onFrame(pcm, rms) {
+    if (!this.vad) { this.post(pcm, rms); return; }
+    this.vad.process(pcm, rms);
+
+    this.levelMs += this.frameMs;
+    if (this.levelMs >= 100) {
+      this.levelMs = 0;
+      const v = this.vad;
+      this.port.postMessage({ type: 'level', rms, floor: v.noiseFloor, onset: v.onsetThresh, offset: v.offsetThresh });
+    }
+  }
+}
+
+registerProcessor('mic-capture', MicCaptureProcessor);
+`;
+
+export {processor};
@@ -0,0 +1,76 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/**
+ * Deterministic offline provider for developing the mouth and turn flow.
+ * Every character gets a fixed slot: letters hum a tone whose pitch depends
+ * on the viseme, whitespace/punctuation are silent. The same text always
+ * yields the same PCM, visemes and word boundaries.
+ */
+import { visemeForChar, type SpeechEvents, type SpeechProvider, type SpeechRequest, type SpeechUtterance } from './speech-provider.ts';
+
+const CHAR_MS = 70;
+const PAUSE_MS = 220; // after , . ! ? ;
+
+export class MockSpeechProvider implements SpeechProvider {
+  readonly name = 'Mock';
+  readonly sampleRate = 24000;
+  readonly supportsSsml = false;
+
+  unavailableReason() { return ''; }
+
+  speak(req: SpeechRequest, events: SpeechEvents): SpeechUtterance {
+    const words = [...req.text.matchAll(/\S+\s*/g)].map(m => m[0]);
+    let cancelled = false;
+    let offsetMs = 0;
+    let i = 0;
+
+    // One word per task so cancel() can stop mid-utterance
+    const step = () => {
+      if (cancelled) return;
+      if (i === 0) events.onStart?.();
+      if (i >= words.length) {
+        events.onViseme?.({ offsetMs, id: 0 });
+        events.onEnd?.();
+        return;
+      }
+      const word = words[i++];
+      const spoken = word.trimEnd();
+      events.onWordBoundary?.({ offsetMs, durationMs: spoken.length * CHAR_MS, text: spoken });
+
+      const slots: number[] = [];
+      for (const ch of word) {
+        const id = visemeForChar(ch);
+        events.onViseme?.({ offsetMs, id });
+        const ms = /[,.!?;]/.test(ch) ? PAUSE_MS : CHAR_MS;
+        slots.push(id, ms);
+        offsetMs += ms;
+      }
+      events.onAudio?.(this.render(slots));
+      window.setTimeout(step, 0);
+    };
+    window.setTimeout(step, 0);
+
+    return { cancel: () => { cancelled = true; } };
+  }
+
+  /** PCM16 for [visemeId, ms, visemeId, ms, ...]; silent for viseme 0. */
+  private render(slots: number[]): ArrayBuffer {
+    let total = 0;
+    for (let s = 1; s < slots.length; s += 2) total += Math.round(slots[s] * this.sampleRate / 1000);
+    const out = new Int16Array(total);
+    let n = 0;
+    for (let s = 0; s < slots.length; s += 2) {
+      const id = slots[s];
+      const len = Math.round(slots[s + 1] * this.sampleRate / 1000);
+      const freq = 140 + id * 12;
+      for (let k = 0; k < len; k++, n++) {
+        if (!id) continue;
+        const env = Math.sin(Math.PI * k / len); // fade in/out per slot, no clicks
+        out[n] = Math.round(0.25 * env * Math.sin(2 * Math.PI * freq * k / this.sampleRate) * 0x7fff);
+      }
+    }
+    return out.buffer;
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/**
+ * Lightweight tags Gemini may put in its text: speaking styles, e.g.
+ * "[cheerful] Great news! [calm] Take the lift to level two.", and mascot
+ * expressions ("[happy]", "[concerned]", ...). A style tag sets the style for
+ * the text after it (until the next tag or the end of the turn); an
+ * expression tag applies to the segment it is in; "[neutral]" resets both.
+ * Tags are removed before synthesis and from the transcript. Bracketed words
+ * that aren't known tags are left alone.
+ */
+import { SPEAKING_STYLES } from './ssml.ts';
+import { EXPRESSIONS, isExpression, type MascotExpression } from './expression.ts';
+
+const TAG_STYLES = [...SPEAKING_STYLES, 'neutral'];
+const KNOWN_TAGS = new Set<string>([...TAG_STYLES, ...EXPRESSIONS]);
+const TAG = /\[([a-z]+)\]\s*/gi;
+const PARTIAL_TAG = /\[[a-z]{0,16}$/i;
+
+export interface StyledText { style: string; text: string }
+
+/** Instructions appended to the system prompt when the tags are enabled. */
+export const STYLE_TAG_INSTRUCTION =
+  `You may start a sentence with one speaking-style tag in square brackets to change your tone: ${TAG_STYLES.map(s => `[${s}]`).join(' ')}. ` +
+  'Use them sparingly, only when the tone changes, and never explain them.';
+export const EXPRESSION_TAG_INSTRUCTION =
+  `To change your facial expression, start a sentence with one tag in square brackets: ${EXPRESSIONS.map(e => `[${e}]`).join(' ')}. ` +
+  'Use one only when your mood changes, and never explain it.';
+
+/**
+ * Split text at tags; `style` is the style in effect before the text. Returns
+ * the style after it and the last expression tag seen, if any.
+ */
+export function splitModelTags(text: string, style: string): { parts: StyledText[]; style: string; expression?: MascotExpression } {
+  const parts: StyledText[] = [];
+  let expression: MascotExpression | undefined;
+  let last = 0;
+  for (const m of text.matchAll(TAG)) {
+    const name = m[1].toLowerCase();
+    if (!KNOWN_TAGS.has(name)) continue;
+    if (m.index! > last) parts.push({ style, text: text.slice(last, m.index) });
+    if (TAG_STYLES.includes(name)) style = name;
+    if (isExpression(name)) expression = name;
+    last = m.index! + m[0].length;
+  }
+  if (last < text.length) parts.push({ style, text: text.slice(last) });
+  return { parts: parts.filter(p => p.text.trim()), style, expression };
+}
+
+/**
+ * Remove complete tags from a streamed chunk. A trailing "[chee" that may be
+ * the start of a tag is returned as `carry` to prepend to the next chunk.
+ */
+export function stripModelTags(chunk: string): { text: string; carry: string } {
+  const carry = PARTIAL_TAG.exec(chunk)?.[0] ?? '';
+  const text = chunk.slice(0, chunk.length - carry.length).replace(TAG, (m, name: string) => KNOWN_TAGS.has(name.toLowerCase()) ? '' : m);
+  return { text, carry };
+}
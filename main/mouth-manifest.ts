@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/**
+ * Mouth sprite manifest: maps every Azure viseme ID (0–21) to a list of
+ * sprite names tried in order, so per-viseme art can be dropped in one shape
+ * at a time (e.g. public/mouth/visemes/08-ow.png) and anything missing falls
+ * back to the four bucket sprites. Loaded at runtime; no rebuild needed.
+ * The shipped public/mouth/manifest.json maps every ID to those four; to add
+ * art for one shape, register the sprite and list it first for its ID:
+ *
+ *   "sprites": { ..., "ow": { "src": "visemes/08-ow.png", "dy": -2 } },
+ *   "visemes": { ..., "8": ["ow", "o"] }
+ *
+ * Azure visemes: 0 silence · 1 æ ə ʌ · 2 ɑ · 3 ɔ · 4 ɛ ʊ · 5 ɝ · 6 j i ɪ · 7 w u · 8 o
+ * · 9 aʊ · 10 ɔɪ · 11 aɪ · 12 h · 13 ɹ · 14 l · 15 s z · 16 ʃ tʃ dʒ ʒ · 17 ð · 18 f v
+ * · 19 d t n θ · 20 k g ŋ · 21 p b m
+ */
+
+export interface MouthSprite {
+  src: string;
+  dx?: number;     // % of the mouth box
+  dy?: number;     // % of the mouth box
+  scale?: number;
+}
+
+export interface MouthManifest {
+  version: number;
+  base?: string;                              // prefix for relative sprite src
+  default: string;                            // sprite when nothing else resolves
+  sprites: Record<string, MouthSprite>;
+  visemes: Record<string, string | string[]>; // viseme id -> sprite name(s), best first
+}
+
+/** Built-in fallback: the original 4-sprite buckets. */
+export const DEFAULT_MOUTH_MANIFEST: MouthManifest = {
+  version: 1,
+  default: 'narrow',
+  sprites: {
+    closed: { src: '/mouth/closed.png' },
+    narrow: { src: '/mouth/narrow.png' },
+    wide:   { src: '/mouth/wide.png' },
+    o:      { src: '/mouth/o.png' },
+  },
+  visemes: {
+    0: 'closed', 21: 'closed',                       // silence, P/B/M
+    7: 'o', 8: 'o',                                   // rounded O/U
+    2: 'wide', 3: 'wide', 9: 'wide', 10: 'wide', 11: 'wide', // AA/AW/AI-ish
+  },
+};
+
+export async function loadMouthManifest(url: string): Promise<MouthManifest> {
+  const res = await fetch(url, { cache: 'no-cache' });
+  if (!res.ok) throw new Error(`${url}: HTTP ${res.status}`);
+  const m = await res.json() as MouthManifest;
+  if (!m?.sprites || !m.visemes || !m.default) throw new Error(`${url}: missing sprites/visemes/default`);
+  // Relative sprite paths resolve against `base`, else against the manifest itself
+  const base = new URL(m.base ?? './', new URL(url, location.href)).href;
+  for (const s of Object.values(m.sprites)) s.src = new URL(s.src, base).href;
+  return m;
+}
+
+/** First usable sprite for `id`, skipping names that are unknown or failed to load. */
+export function resolveMouthSprite(m: MouthManifest, id: number, broken: ReadonlySet<string>): MouthSprite {
+  const entry = m.visemes[id] ?? [];
+  const names = [...(Array.isArray(entry) ? entry : [entry]), m.default];
+  for (const name of names) {
+    const sprite = m.sprites[name];
+    if (sprite && !broken.has(name)) return sprite;
+  }
+  return m.sprites[m.default];
+}
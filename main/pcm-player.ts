@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/* ---------- Tiny WebAudio player for raw 24 kHz PCM (Azure push-out) ---------- */
+export class PcmaPlayer {
+  readonly ctx: AudioContext;
+  /** Everything played goes through here (tap it for analysers). */
+  readonly output: GainNode;
+  private playHead = 0;
+  private started = false;
+  private prebufferSec = 0.12;
+  private _basePerfMs = 0;
+  private _startTime = 0;
+
+  constructor(sampleRate = 24000) {
+    this.ctx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate });
+    this.output = this.ctx.createGain();
+    this.output.connect(this.ctx.destination);
+    // Contexts created before a user gesture start suspended (autoplay policy)
+    this.ctx.resume().catch(() => {});
+  }
+  writePcm16(buf: ArrayBuffer) {
+    const i16 = new Int16Array(buf);
+    const f32 = new Float32Array(i16.length);
+    for (let i = 0; i < i16.length; i++) f32[i] = i16[i] / 0x8000;
+
+    const abuf = this.ctx.createBuffer(1, f32.length, this.ctx.sampleRate);
+    abuf.copyToChannel(f32, 0, 0);
+    this.writeBuffer(abuf);
+  }
+  /** Queue an already-decoded buffer (e.g. a pre-recorded clip) after what's scheduled. */
+  writeBuffer(abuf: AudioBuffer) {
+    const src = this.ctx.createBufferSource();
+    src.buffer = abuf;
+    src.connect(this.output);
+
+    if (!this.started) {
+      this.playHead = this.ctx.currentTime + this.prebufferSec;
+      this._startTime = this.playHead;
+      this._basePerfMs = performance.now() + this.prebufferSec * 1000;
+      this.started = true;
+    } else if (this.playHead < this.ctx.currentTime) {
+      // Underrun (next segment arrived late): prebuffer again instead of playing "in the past"
+      this.playHead = this.ctx.currentTime + this.prebufferSec;
+    }
+    src.start(this.playHead);
+    this.playHead += abuf.duration;
+  }
+  get basePerfMs() { return this._basePerfMs; }
+  /** AudioContext time of the first sample (0 until the first write). */
+  get startTime() { return this._startTime; }
+  /** Where the next written sample will play, in seconds from startTime (0 before the first write). */
+  get nextOffsetSec() {
+    if (!this.started) return 0;
+    const head = this.playHead < this.ctx.currentTime ? this.ctx.currentTime + this.prebufferSec : this.playHead;
+    return head - this._startTime;
+  }
+  /** Output clock in AudioContext seconds, corrected for device output latency. */
+  get now() { return this.ctx.currentTime - (this.ctx.outputLatency || 0); }
+  /** True while scheduled audio is still ahead of the output clock (never while suspended: the clock is stopped). */
+  get playing() { return this.started && this.ctx.state === 'running' && this.ctx.currentTime < this.playHead; }
+  close() { try { this.ctx.close(); } catch {} }
+}
@@ -0,0 +1,135 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { LitElement, css, html } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { PERSONA_PRESETS, languageName, type Persona } from './persona.ts';
+import { SPEAKING_STYLES, type Delivery } from './ssml.ts';
+
+const PROSODY: Array<{ key: 'rate' | 'pitch' | 'volume'; label: string; min: number; max: number }> = [
+  { key: 'rate',   label: 'Rate (%)',   min: -50, max: 100 },
+  { key: 'pitch',  label: 'Pitch (%)',  min: -50, max: 50 },
+  { key: 'volume', label: 'Volume (%)', min: -50, max: 50 },
+];
+
+const LANGUAGES = ['en-US', 'en-GB', 'ta-IN', 'ar-SA', 'ar-EG', 'ar-AE', 'hi-IN', 'fr-FR', 'de-DE', 'es-ES'];
+
+/**
+ * Persona editor: start from a preset, edit name / prompt / greeting / voice /
+ * language / delivery (prosody, speaking style, Gemini style tags), then
+ * Apply. Edits stay local until Apply, which fires `persona-change` with the
+ * full Persona in `detail`.
+ */
+@customElement('gdm-persona-editor')
+export class GdmPersonaEditor extends LitElement {
+  @property({ attribute: false }) persona!: Persona;
+  @property({ attribute: false }) voices: string[] = [];
+  @state() private draft?: Persona;
+
+  static styles = css`
+    :host { display:block; font:12px system-ui,sans-serif; color:#ddd; }
+    .grid { display:grid; grid-template-columns:auto 1fr; gap:6px 8px; align-items:center; }
+    .slider { display:grid; grid-template-columns:1fr 3em; gap:8px; align-items:center; }
+    .val { text-align:right; font-variant-numeric:tabular-nums; }
+    h4 { margin:10px 0 6px; font-weight:600; color:#bbb; }
+    input, select, textarea, button { font:13px system-ui,sans-serif; padding:6px; border-radius:6px; border:1px solid #ddd; }
+    textarea { min-height:5em; resize:vertical; }
+    .actions { display:flex; gap:8px; justify-content:flex-end; margin-top:6px; }
+    .dirty { color:#ffb300; margin-right:auto; align-self:center; }
+  `;
+
+  protected willUpdate(changed: Map<string, unknown>) {
+    if (changed.has('persona')) this.draft = { ...this.persona };
+  }
+
+  private edit(patch: Partial<Persona>) {
+    this.draft = { ...this.draft!, ...patch };
+  }
+
+  private editDelivery(patch: Partial<Delivery>) {
+    this.edit({ delivery: { ...this.draft!.delivery, ...patch } });
+  }
+
+  private get dirty() {
+    return JSON.stringify(this.draft) !== JSON.stringify(this.persona);
+  }
+
+  private apply() {
+    this.dispatchEvent(new CustomEvent('persona-change', { detail: { ...this.draft! }, bubbles: true, composed: true }));
+  }
+
+  render() {
+    const d = this.draft;
+    if (!d) return null;
+    return html`
+      <div class="grid">
+        <label>Preset</label>
+        <select @change=${(e:any)=>{ const p = PERSONA_PRESETS[Number(e.target.value)]; if (p) this.draft = { ...p }; e.target.value = ''; }}>
+          <option value="">— Load a preset —</option>
+          ${PERSONA_PRESETS.map((p, i) => html`<option value=${i}>${p.name} (${languageName(p.language)})</option>`)}
+        </select>
+
+        <label>Name</label>
+        <input .value=${d.name} @input=${(e:any)=>this.edit({ name: e.target.value })} />
+
+        <label>Language</label>
+        <input list="persona-languages" .value=${d.language} placeholder="BCP-47, e.g. en-US"
+          @input=${(e:any)=>this.edit({ language: e.target.value.trim() })} />
+
+        <label>Voice</label>
+        <input list="persona-voices" .value=${d.voice} @input=${(e:any)=>this.edit({ voice: e.target.value.trim() })} />
+
+        <label>System prompt</label>
+        <textarea .value=${d.systemPrompt} @input=${(e:any)=>this.edit({ systemPrompt: e.target.value })}></textarea>
+
+        <label>Greeting</label>
+        <input .value=${d.greeting} placeholder="Spoken when a session opens (optional)"
+          @input=${(e:any)=>this.edit({ greeting: e.target.value })} />
+      </div>
+
+      <h4>Delivery (Azure SSML)</h4>
+      <div class="grid">
+        ${PROSODY.map(s => html`
+          <label>${s.label}</label>
+          <div class="slider">
+            <input type="range" min=${s.min} max=${s.max} step="5" .value=${String(d.delivery[s.key])}
+              @input=${(e:any)=>this.editDelivery({ [s.key]: Number(e.target.value) })} />
+            <span class="val">${d.delivery[s.key] > 0 ? '+' : ''}${d.delivery[s.key]}</span>
+          </div>`)}
+
+        <label>Speaking style</label>
+        <select @change=${(e:any)=>this.editDelivery({ style: e.target.value })}>
+          <option value="" ?selected=${!d.delivery.style}>None</option>
+          ${SPEAKING_STYLES.map(s => html`<option value=${s} ?selected=${s === d.delivery.style}>${s}</option>`)}
+        </select>
+
+        <label>Style degree</label>
+        <div class="slider">
+          <input type="range" min="0.1" max="2" step="0.1" .value=${String(d.delivery.styleDegree)} ?disabled=${!d.delivery.style}
+            @input=${(e:any)=>this.editDelivery({ styleDegree: Number(e.target.value) })} />
+          <span class="val">${d.delivery.styleDegree}</span>
+        </div>
+
+        <label>Style tags</label>
+        <label><input type="checkbox" .checked=${d.delivery.styleTags}
+          @change=${(e:any)=>this.editDelivery({ styleTags: e.target.checked })} /> Let Gemini switch styles with [cheerful]-style tags</label>
+      </div>
+      <div class="actions">
+        ${this.dirty ? html`<span class="dirty">Unsaved changes</span>` : null}
+        <button ?disabled=${!this.dirty} @click=${()=>this.draft = { ...this.persona }}>Revert</button>
+        <button ?disabled=${!this.dirty || !d.systemPrompt.trim()} @click=${this.apply}>Apply &amp; reconnect</button>
+      </div>
+
+      <datalist id="persona-languages">${LANGUAGES.map(l => html`<option value=${l}>${languageName(l)}</option>`)}</datalist>
+      <datalist id="persona-voices">${this.voices.map(v => html`<option value=${v}></option>`)}</datalist>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'gdm-persona-editor': GdmPersonaEditor;
+  }
+}
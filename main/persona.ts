@@ -0,0 +1,86 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/**
+ * Personas: who Alfred is at a given event. The system prompt, language and
+ * greeting go to Gemini / the speech provider; the voice becomes the default
+ * speech voice when the persona is applied, and the delivery (prosody,
+ * speaking style) shapes every SSML request.
+ */
+import { DEFAULT_DELIVERY, type Delivery } from './ssml.ts';
+import { STYLE_TAG_INSTRUCTION } from './model-tags.ts';
+
+export interface Persona {
+  name: string;
+  systemPrompt: string;
+  greeting: string;       // spoken when a fresh session opens ('' = none)
+  voice: string;          // speech provider voice (Azure voice name)
+  language: string;       // BCP-47 tag, e.g. 'en-US', 'ta-IN'
+  delivery: Delivery;
+}
+
+const TURN_RULES = 'Wait for the user to speak; respond after the user finishes their turn (activityEnd).';
+
+export const PERSONA_PRESETS: Persona[] = [
+  {
+    name: 'Alfred',
+    systemPrompt: `You are Alfred. ${TURN_RULES} Be brief and conversational.`,
+    greeting: "Hello, I'm Alfred. How can I help?",
+    voice: 'en-US-JennyNeural',
+    language: 'en-US',
+    delivery: { ...DEFAULT_DELIVERY, style: 'friendly' },
+  },
+  {
+    name: 'Conference host',
+    systemPrompt: `You are Alfred, the host of this conference. ${TURN_RULES} Be upbeat and concise; help visitors with the schedule, rooms and speakers, and use the event tools for facts instead of guessing.`,
+    greeting: 'Welcome to the conference! Ask me about talks, rooms or anything else.',
+    voice: 'en-US-GuyNeural',
+    language: 'en-US',
+    delivery: { ...DEFAULT_DELIVERY, rate: 5, style: 'cheerful', styleTags: true },
+  },
+  {
+    name: 'Museum guide',
+    systemPrompt: `You are Alfred, a calm and knowledgeable museum guide. ${TURN_RULES} Explain things simply, in two or three sentences, and offer to tell more.`,
+    greeting: 'Good day. I am Alfred, your guide. What would you like to know?',
+    voice: 'en-GB-RyanNeural',
+    language: 'en-GB',
+    delivery: { ...DEFAULT_DELIVERY, rate: -5, pitch: -3 },
+  },
+  {
+    name: 'Tamil assistant',
+    systemPrompt: `You are Alfred, a friendly assistant. ${TURN_RULES} Be brief and conversational.`,
+    greeting: 'வணக்கம்! நான் ஆல்ஃபிரட். உங்களுக்கு எப்படி உதவலாம்?',
+    voice: 'ta-IN-ValluvarNeural',
+    language: 'ta-IN',
+    delivery: { ...DEFAULT_DELIVERY },
+  },
+  {
+    name: 'Arabic concierge',
+    systemPrompt: `You are Alfred, a polite concierge. ${TURN_RULES} Be brief and welcoming.`,
+    greeting: 'مرحباً، أنا ألفريد. كيف يمكنني مساعدتك؟',
+    voice: 'ar-SA-HamedNeural',
+    language: 'ar-SA',
+    delivery: { ...DEFAULT_DELIVERY },
+  },
+];
+
+export const DEFAULT_PERSONA = PERSONA_PRESETS[0];
+
+/** "Tamil (India)" for 'ta-IN'; the tag itself if the browser doesn't know it. */
+export function languageName(tag: string) {
+  try { return new Intl.DisplayNames(['en'], { type: 'language' }).of(tag) ?? tag; }
+  catch { return tag; }
+}
+
+/**
+ * System instruction sent to Gemini: the prompt plus the reply language (and
+ * style tags, if enabled). Tags only work on text replies, where they are
+ * stripped before speech; native audio would read them out.
+ */
+export function systemInstruction(p: Persona, responseMode: 'text' | 'audio' = 'text') {
+  const lines = [p.systemPrompt];
+  if (p.language) lines.push(`Reply in ${languageName(p.language)} unless the user speaks another language.`);
+  if (p.delivery.styleTags && responseMode === 'text') lines.push(STYLE_TAG_INSTRUCTION);
+  return lines.join('\n');
+}
@@ -0,0 +1,83 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/**
+ * Incremental sentence/clause segmenter for streaming model text into TTS.
+ * push() returns every segment completed by the new text; flush() returns
+ * what is left at the end of the turn. Sentences end at . ! ? … (and the
+ * Arabic/Devanagari/CJK equivalents) followed by whitespace; long sentences
+ * are also cut at clause punctuation so speech can start early. The first
+ * segment of a turn is cut sooner than later ones to get audio going.
+ */
+
+const SENTENCE_END = /[.!?…。！？؟।]["'”’)\]]*\s/u;
+const CLAUSE_END = /[,;:،—–]["'”’)\]]*\s/u;
+const ABBREVIATIONS = /\b(?:mr|mrs|ms|dr|st|prof|vs|etc|e\.g|i\.e|approx|no)\.\s$/i;
+
+export interface SegmenterOptions {
+  firstClauseChars: number;   // first segment: cut at a clause once this long
+  clauseChars: number;        // later segments: cut at a clause once this long
+  maxChars: number;           // hard cut at the last space beyond this
+}
+
+export class SentenceSegmenter {
+  private buf = '';
+  private emitted = 0;        // segments emitted this turn
+
+  constructor(private opts: SegmenterOptions = { firstClauseChars: 24, clauseChars: 80, maxChars: 220 }) {}
+
+  push(text: string): string[] {
+    this.buf += text;
+    const out: string[] = [];
+    for (let seg = this.next(); seg; seg = this.next()) out.push(seg);
+    return out;
+  }
+
+  /** End of turn: whatever is buffered becomes the last segment. */
+  flush(): string {
+    const rest = this.buf.trim();
+    this.reset();
+    return rest;
+  }
+
+  reset() {
+    this.buf = '';
+    this.emitted = 0;
+  }
+
+  private next(): string | null {
+    const cut = this.findCut();
+    if (cut <= 0) return null;
+    const seg = this.buf.slice(0, cut).trim();
+    this.buf = this.buf.slice(cut).replace(/^\s+/, '');
+    if (!seg) return null;
+    this.emitted++;
+    return seg;
+  }
+
+  /** Index just past the segment end, or -1 if the buffer has no complete segment yet. */
+  private findCut(): number {
+    const b = this.buf;
+
+    for (let from = 0; ; ) {
+      const m = SENTENCE_END.exec(b.slice(from));
+      if (!m) break;
+      const end = from + m.index + m[0].length;
+      if (!ABBREVIATIONS.test(b.slice(0, end))) return end;
+      from = end;
+    }
+
+    const minClause = this.emitted ? this.opts.clauseChars : this.opts.firstClauseChars;
+    if (b.length >= minClause) {
+      const re = new RegExp(CLAUSE_END.source, 'gu');
+      for (let m = re.exec(b); m; m = re.exec(b)) if (m.index + 1 >= minClause) return m.index + m[0].length;
+    }
+
+    if (b.length > this.opts.maxChars) {
+      const space = b.lastIndexOf(' ', this.opts.maxChars);
+      return space > 0 ? space + 1 : this.opts.maxChars;
+    }
+    return -1;
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/**
+ * Session recorder: everything that drives turn-taking and lip sync, with
+ * millisecond timestamps from the start of the recording, saved as one JSON
+ * bundle for bug reports:
+ *   - mic PCM16 frames (base64), turn decisions (VAD or talk key) and typed user turns
+ *   - Gemini session opens and every LiveServerMessage
+ *   - every speech request with its audio chunks, visemes and start/end
+ * Replay (session-replay.ts) feeds a bundle back through the same handlers.
+ */
+import type { LiveServerMessage } from '@google/genai';
+import { encode } from './utils.ts';
+import type { SettingsProfile } from './settings-store.ts';
+import type { SpeechEvents, SpeechProvider, SpeechRequest, SpeechUtterance } from './speech-provider.ts';
+
+export type RecordedEvent =
+  | { t: number; kind: 'mic'; pcm: string; rms: number }
+  | { t: number; kind: 'vad'; event: 'start' | 'end' }
+  | { t: number; kind: 'text'; text: string }
+  | { t: number; kind: 'open'; model: string; resumed: boolean }
+  | { t: number; kind: 'message'; message: LiveServerMessage }
+  | { t: number; kind: 'speak'; id: number; provider: string; sampleRate: number; supportsSsml: boolean; req: SpeechRequest }
+  | { t: number; kind: 'speech'; id: number; event: 'start' | 'end' }
+  | { t: number; kind: 'speech'; id: number; event: 'audio'; pcm: string }
+  | { t: number; kind: 'speech'; id: number; event: 'viseme'; offsetMs: number; viseme: number }
+  | { t: number; kind: 'speech'; id: number; event: 'word'; offsetMs: number; durationMs: number; text: string }
+  | { t: number; kind: 'speech'; id: number; event: 'error'; message: string };
+
+export interface SessionBundle {
+  version: 1;
+  created: string;                        // ISO time the recording started
+  settings: SettingsProfile;              // Azure key removed
+  responseMode: 'text' | 'audio';
+  events: RecordedEvent[];
+}
+
+/** Distributes Omit over the event union so each variant keeps its own fields. */
+type Untimed<T> = T extends unknown ? Omit<T, 't'> : never;
+
+export class SessionRecorder {
+  private bundle?: SessionBundle;
+  private t0 = 0;
+  private utterances = 0;
+  private taps = new WeakMap<SpeechProvider, SpeechProvider>();
+
+  get recording() { return !!this.bundle; }
+  get eventCount() { return this.bundle?.events.length ?? 0; }
+
+  start(settings: SettingsProfile, responseMode: 'text' | 'audio') {
+    this.t0 = performance.now();
+    this.utterances = 0;
+    this.bundle = { version: 1, created: new Date().toISOString(), settings: { ...settings, azureKey: '' }, responseMode, events: [] };
+  }
+
+  /** Stop and hand back the bundle (undefined when not recording). */
+  stop() {
+    const b = this.bundle;
+    this.bundle = undefined;
+    return b;
+  }
+
+  add(e: Untimed<RecordedEvent>) {
+    if (!this.bundle) return;
+    this.bundle.events.push({ ...e, t: Math.round((performance.now() - this.t0) * 10) / 10 } as RecordedEvent);
+  }
+
+  mic(pcm: Int16Array, rms: number) {
+    if (this.bundle) this.add({ kind: 'mic', pcm: encode(new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength)), rms });
+  }
+
+  /** `provider` with every request and callback recorded (while a recording runs). */
+  speech(provider: SpeechProvider): SpeechProvider {
+    let tap = this.taps.get(provider);
+    if (!tap) {
+      const rec = this;
+      tap = {
+        get name() { return provider.name; },
+        get sampleRate() { return provider.sampleRate; },
+        get supportsSsml() { return provider.supportsSsml; },
+        unavailableReason: () => provider.unavailableReason(),
+        speak: (req, events) => rec.speak(provider, req, events),
+      };
+      this.taps.set(provider, tap);
+    }
+    return tap;
+  }
+
+  private speak(provider: SpeechProvider, req: SpeechRequest, events: SpeechEvents): SpeechUtterance {
+    if (!this.bundle) return provider.speak(req, events);
+    const id = ++this.utterances;
+    this.add({ kind: 'speak', id, provider: provider.name, sampleRate: provider.sampleRate, supportsSsml: provider.supportsSsml, req: { ...req } });
+    return provider.speak(req, {
+      onStart: () => { this.add({ kind: 'speech', id, event: 'start' }); events.onStart?.(); },
+      onAudio: (chunk) => { this.add({ kind: 'speech', id, event: 'audio', pcm: encode(new Uint8Array(chunk)) }); events.onAudio?.(chunk); },
+      onViseme: (v) => { this.add({ kind: 'speech', id, event: 'viseme', offsetMs: v.offsetMs, viseme: v.id }); events.onViseme?.(v); },
+      onWordBoundary: (w) => { this.add({ kind: 'speech', id, event: 'word', ...w }); events.onWordBoundary?.(w); },
+      onEnd: () => { this.add({ kind: 'speech', id, event: 'end' }); events.onEnd?.(); },
+      onError: (message) => { this.add({ kind: 'speech', id, event: 'error', message }); events.onError?.(message); },
+    });
+  }
+}
+
+/** Parse a saved bundle; throws on anything that isn't one. */
+export function parseSessionBundle(text: string): SessionBundle {
+  const b = JSON.parse(text);
+  if (b?.version !== 1 || !Array.isArray(b.events) || !b.settings) throw new Error('Not a session recording');
+  return b as SessionBundle;
+}
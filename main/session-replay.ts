@@ -0,0 +1,191 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/**
+ * Replays a session bundle (session-recorder.ts) without network or mic.
+ * Mic frames, VAD decisions, typed turns, session opens and Live messages fire at their
+ * recorded times through the app's own handlers. Speech is replayed by
+ * `speech`, a SpeechProvider that answers the app's n-th speak() with the
+ * n-th recorded utterance, its audio/visemes keeping their recorded spacing.
+ * Everything runs on one virtual clock, so a replay can be paused and
+ * stepped one event at a time.
+ */
+import type { LiveServerMessage } from '@google/genai';
+import { decode } from './utils.ts';
+import type { MicCaptureEvents } from './mic-capture.ts';
+import type { RecordedEvent, SessionBundle } from './session-recorder.ts';
+import type { SpeechEvents, SpeechProvider, SpeechRequest, SpeechUtterance } from './speech-provider.ts';
+
+export interface ReplayHandlers {
+  mic: MicCaptureEvents;
+  onOpen(model: string, resumed: boolean): void;
+  onMessage(message: LiveServerMessage): void;
+  onText(text: string): void;
+  /** Something didn't line up with the recording (the code under test diverged). */
+  onDiverge?(msg: string, data?: unknown): void;
+  onDone(): void;
+}
+
+type SpeakEvent = Extract<RecordedEvent, { kind: 'speak' }>;
+type SpeechEvent = Extract<RecordedEvent, { kind: 'speech' }>;
+interface Utterance { speak: SpeakEvent; events: SpeechEvent[] }
+interface Scheduled { at: number; seq: number; label: string; run: () => void }
+
+const IDLE_END_MS = 3000;   // nothing left to fire but utterances were never asked for: give up after this
+
+const pcm16 = (b64: string) => decode(b64).buffer as ArrayBuffer;
+
+export class SessionReplay {
+  readonly speech: SpeechProvider;
+  private queue: Scheduled[] = [];
+  private seq = 0;
+  private utterances: Utterance[] = [];
+  private nextUtterance = 0;
+  private base = 0;           // virtual ms at wallBase
+  private wallBase = 0;
+  private timer?: number;
+  private _paused = true;      // until start()
+  private finished = false;
+  private pumping = false;
+
+  constructor(private bundle: SessionBundle, private handlers: ReplayHandlers) {
+    const byId = new Map<number, Utterance>();
+    for (const e of bundle.events) {
+      if (e.kind === 'speak') { const u = { speak: e, events: [] }; byId.set(e.id, u); this.utterances.push(u); }
+      else if (e.kind === 'speech') byId.get(e.id)?.events.push(e);
+      else this.schedule(e.t, e.kind, () => this.fire(e));
+    }
+
+    const replay = this;
+    this.speech = {
+      name: 'Replay',
+      get sampleRate() { return replay.peekUtterance()?.speak.sampleRate ?? 24000; },
+      get supportsSsml() { return replay.peekUtterance()?.speak.supportsSsml ?? false; },
+      unavailableReason: () => '',
+      speak: (req, events) => this.speak(req, events),
+    };
+  }
+
+  get paused() { return this._paused; }
+  /** Virtual position in ms. */
+  get position() { return this._paused ? this.base : this.base + performance.now() - this.wallBase; }
+  get duration() { return this.bundle.events[this.bundle.events.length - 1]?.t ?? 0; }
+  get pending() { return this.queue.length; }
+  /** Label of the next event due (for stepping). */
+  get next() { return this.queue[0]?.label ?? ''; }
+
+  start() {
+    this.resume();
+  }
+
+  pause() {
+    if (this._paused) return;
+    this.base = this.position;
+    this._paused = true;
+    clearTimeout(this.timer);
+  }
+
+  resume() {
+    if (!this._paused) return;
+    this._paused = false;
+    this.wallBase = performance.now();
+    this.pump();
+  }
+
+  /** Paused: fire the next event, moving the clock to it. */
+  step() {
+    if (!this._paused) return;
+    const item = this.queue.shift();
+    if (!item) { this.finish(); return; }
+    this.base = Math.max(this.base, item.at);
+    item.run();
+  }
+
+  stop() {
+    clearTimeout(this.timer);
+    this.queue = [];
+    this.finished = true;
+  }
+
+  private schedule(at: number, label: string, run: () => void) {
+    const item = { at, seq: this.seq++, label, run };
+    // Keep the queue sorted by time, then insertion order
+    let i = this.queue.length;
+    while (i > 0 && (this.queue[i - 1].at > at || (this.queue[i - 1].at === at && this.queue[i - 1].seq > item.seq))) i--;
+    this.queue.splice(i, 0, item);
+    if (!this._paused && !this.finished && !this.pumping) this.pump();
+  }
+
+  /** Fire everything that is due, then sleep until the next item. */
+  private pump() {
+    clearTimeout(this.timer);
+    if (this._paused || this.finished) return;
+    this.pumping = true;
+    try {
+      while (!this._paused && this.queue.length && this.queue[0].at <= this.position) this.queue.shift()!.run();
+    } finally {
+      this.pumping = false;
+    }
+    if (this._paused || this.finished) return;
+    if (this.queue.length) {
+      this.timer = window.setTimeout(() => this.pump(), this.queue[0].at - this.position);
+    } else if (this.nextUtterance >= this.utterances.length) {
+      this.finish();
+    } else {
+      this.timer = window.setTimeout(() => {
+        this.handlers.onDiverge?.('Recorded utterances never requested', { left: this.utterances.length - this.nextUtterance });
+        this.finish();
+      }, IDLE_END_MS);
+    }
+  }
+
+  private finish() {
+    if (this.finished) return;
+    this.stop();
+    this.handlers.onDone();
+  }
+
+  private fire(e: RecordedEvent) {
+    const h = this.handlers;
+    switch (e.kind) {
+      case 'mic': h.mic.onFrame?.(new Int16Array(pcm16(e.pcm)), e.rms); break;
+      case 'vad': if (e.event === 'start') h.mic.onSpeechStart?.(); else h.mic.onSpeechEnd?.(); break;
+      case 'text': h.onText(e.text); break;
+      case 'open': h.onOpen(e.model, e.resumed); break;
+      case 'message': h.onMessage(e.message); break;
+    }
+  }
+
+  private peekUtterance(): Utterance | undefined { return this.utterances[this.nextUtterance]; }
+
+  /** The app's n-th request gets the n-th recorded utterance, spaced as recorded from now. */
+  private speak(req: SpeechRequest, events: SpeechEvents): SpeechUtterance {
+    const u = this.utterances[this.nextUtterance++];
+    let cancelled = false;
+    const at = this.position;
+    if (!u) {
+      this.handlers.onDiverge?.('Speak request with no recorded utterance left', { text: req.text });
+      this.schedule(at, 'speech end', () => { if (!cancelled) events.onEnd?.(); });
+      return { cancel: () => { cancelled = true; } };
+    }
+    if (u.speak.req.text !== req.text || u.speak.req.voice !== req.voice) {
+      this.handlers.onDiverge?.('Speak request differs from the recording', { recorded: u.speak.req, now: req });
+    }
+    for (const e of u.events) {
+      const run = () => {
+        if (cancelled) return;
+        switch (e.event) {
+          case 'start': events.onStart?.(); break;
+          case 'audio': events.onAudio?.(pcm16(e.pcm)); break;
+          case 'viseme': events.onViseme?.({ offsetMs: e.offsetMs, id: e.viseme }); break;
+          case 'word': events.onWordBoundary?.({ offsetMs: e.offsetMs, durationMs: e.durationMs, text: e.text }); break;
+          case 'end': events.onEnd?.(); break;
+          case 'error': events.onError?.(e.message); break;
+        }
+      };
+      this.schedule(at + e.t - u.speak.t, `speech ${e.event} #${u.speak.id}`, run);
+    }
+    return { cancel: () => { cancelled = true; } };
+  }
+}
@@ -0,0 +1,214 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/**
+ * Named settings profiles (credentials, voice, model, persona, VAD) kept in
+ * localStorage so kiosks come back configured after a reboot. Secrets (the
+ * Azure key) can be kept in session-only memory instead: they are never
+ * written to storage and are gone when the tab closes. Profiles round-trip
+ * through JSON for moving setups between machines.
+ */
+import { SPEECH_PROVIDERS, type SpeechProviderKind } from './speech-provider.ts';
+import { DEFAULT_VAD, type VadConfig } from './vad.ts';
+import { DEFAULT_PERSONA, type Persona } from './persona.ts';
+import type { ExpressionMode } from './expression.ts';
+import type { VisualsMode } from './visual-3d.ts';
+import { INPUT_MODES, type InputMode } from './input-mode.ts';
+import { DEFAULT_LANGUAGE_VOICES, type LanguageVoices } from './language-voices.ts';
+
+export interface SettingsProfile {
+  name: string;
+  speechProvider: SpeechProviderKind;
+  azureKey: string;
+  azureRegion: string;
+  azureVoice: string;
+  autoVoice: boolean;     // route each segment to the voice of its detected language
+  languageVoices: LanguageVoices;
+  model: string;          // preferred Live model ('' = default fallback order)
+  persona: Persona;
+  expressions: ExpressionMode;  // where mascot expressions come from
+  visuals: VisualsMode;         // 2D mascot, 3D orb or both
+  inputMode: InputMode;         // turn-taking: VAD, push-to-talk or toggle-to-talk
+  vad: VadConfig;
+}
+
+interface StoredSettings {
+  version: 1;
+  active: string;
+  sessionOnlySecrets: boolean;
+  profiles: SettingsProfile[];
+}
+
+const STORAGE_KEY = 'alfred.settings.v1';
+const EXPRESSION_MODES: ExpressionMode[] = ['tags', 'sentiment', 'off'];
+const VISUALS_MODES: VisualsMode[] = ['2d', '3d', 'layered'];
+
+export function defaultProfile(name = 'Default'): SettingsProfile {
+  return {
+    name,
+    speechProvider: 'azure',
+    azureKey: '',
+    azureRegion: '',
+    azureVoice: 'en-US-JennyNeural',
+    autoVoice: true,
+    languageVoices: { ...DEFAULT_LANGUAGE_VOICES },
+    model: '',
+    persona: { ...DEFAULT_PERSONA },
+    expressions: 'sentiment',
+    visuals: '2d',
+    inputMode: 'vad',
+    vad: { ...DEFAULT_VAD },
+  };
+}
+
+export class SettingsStore {
+  private data: StoredSettings;
+  private sessionSecrets = new Map<string, string>(); // profile name -> Azure key (memory only)
+
+  constructor(private storage: Storage = localStorage) {
+    this.data = this.read() ?? { version: 1, active: 'Default', sessionOnlySecrets: false, profiles: [defaultProfile()] };
+  }
+
+  get names() { return this.data.profiles.map(p => p.name); }
+  get activeName() { return this.data.active; }
+  get sessionOnlySecrets() { return this.data.sessionOnlySecrets; }
+
+  /** Copy of a profile (session-only key filled back in); undefined if missing. */
+  get(name: string): SettingsProfile | undefined {
+    const p = this.data.profiles.find(p => p.name === name);
+    if (!p) return undefined;
+    return { ...normalize(p), azureKey: this.data.sessionOnlySecrets ? this.sessionSecrets.get(name) ?? '' : p.azureKey };
+  }
+
+  get active(): SettingsProfile {
+    return this.get(this.data.active) ?? defaultProfile(this.data.active);
+  }
+
+  setActive(name: string) {
+    if (!this.get(name)) return;
+    this.data.active = name;
+    this.write();
+  }
+
+  /** Insert or replace by name and make it active. */
+  put(profile: SettingsProfile) {
+    const p = {
+      ...profile,
+      languageVoices: { ...profile.languageVoices },
+      persona: { ...profile.persona, delivery: { ...profile.persona.delivery } },
+      vad: { ...profile.vad },
+    };
+    this.sessionSecrets.set(p.name, p.azureKey);
+    const i = this.data.profiles.findIndex(x => x.name === p.name);
+    if (i >= 0) this.data.profiles[i] = p; else this.data.profiles.push(p);
+    this.data.active = p.name;
+    this.write();
+  }
+
+  remove(name: string) {
+    this.data.profiles = this.data.profiles.filter(p => p.name !== name);
+    this.sessionSecrets.delete(name);
+    if (!this.data.profiles.length) this.data.profiles.push(defaultProfile());
+    if (this.data.active === name) this.data.active = this.data.profiles[0].name;
+    this.write();
+  }
+
+  /** Session-only secrets: keys stay in memory; turning it on also wipes stored keys. */
+  setSessionOnlySecrets(on: boolean) {
+    if (on === this.data.sessionOnlySecrets) return;
+    if (on) for (const p of this.data.profiles) this.sessionSecrets.set(p.name, p.azureKey);
+    else for (const p of this.data.profiles) p.azureKey = this.sessionSecrets.get(p.name) ?? p.azureKey;
+    this.data.sessionOnlySecrets = on;
+    this.write();
+  }
+
+  exportJson(includeSecrets = false) {
+    const profiles = this.names.map(n => this.get(n)!).map(p => includeSecrets ? p : { ...p, azureKey: '' });
+    return JSON.stringify({ version: 1, active: this.data.active, profiles }, null, 2);
+  }
+
+  /** Merge profiles from exported JSON (same names are replaced). Returns the imported names. */
+  importJson(text: string): string[] {
+    const parsed = JSON.parse(text);
+    const list: any[] = Array.isArray(parsed) ? parsed : parsed?.profiles;
+    if (!Array.isArray(list)) throw new Error('No "profiles" array in file');
+    const names: string[] = [];
+    for (const raw of list) {
+      if (!raw || typeof raw.name !== 'string' || !raw.name.trim()) continue;
+      const p = normalize(raw);
+      // keep an existing key when the file has none
+      if (!p.azureKey) p.azureKey = this.get(p.name)?.azureKey ?? '';
+      this.put(p);
+      names.push(p.name);
+    }
+    if (typeof parsed?.active === 'string' && this.get(parsed.active)) this.setActive(parsed.active);
+    return names;
+  }
+
+  private read(): StoredSettings | undefined {
+    try {
+      const raw = this.storage.getItem(STORAGE_KEY);
+      if (!raw) return undefined;
+      const d = JSON.parse(raw);
+      if (d?.version !== 1 || !Array.isArray(d.profiles) || !d.profiles.length) return undefined;
+      const profiles = d.profiles.map(normalize);
+      return {
+        version: 1,
+        active: typeof d.active === 'string' ? d.active : profiles[0].name,
+        sessionOnlySecrets: d.sessionOnlySecrets === true,
+        profiles,
+      };
+    } catch (e) {
+      console.warn('[settings] ignoring unreadable stored settings', e);
+      return undefined;
+    }
+  }
+
+  private write() {
+    const d = this.data;
+    const profiles = d.sessionOnlySecrets ? d.profiles.map(p => ({ ...p, azureKey: '' })) : d.profiles;
+    try { this.storage.setItem(STORAGE_KEY, JSON.stringify({ ...d, profiles })); }
+    catch (e) { console.warn('[settings] could not persist settings', e); }
+  }
+}
+
+/** Fill missing or mistyped fields (older exports, hand-edited files) from the defaults. */
+function normalize(raw: unknown): SettingsProfile {
+  const r: Record<string, any> = isObject(raw) ? raw : {};
+  const d = defaultProfile(typeof r.name === 'string' ? r.name : undefined);
+  // Exports made before the persona editor existed carry `persona` as the system prompt string
+  const persona = typeof r.persona === 'string' ? { systemPrompt: r.persona } : r.persona;
+  return {
+    ...fit(d, r),
+    speechProvider: oneOf(r.speechProvider, SPEECH_PROVIDERS.map(p => p.kind), d.speechProvider),
+    expressions: oneOf(r.expressions, EXPRESSION_MODES, d.expressions),
+    visuals: oneOf(r.visuals, VISUALS_MODES, d.visuals),
+    inputMode: oneOf(r.inputMode, INPUT_MODES.map(m => m.mode), d.inputMode),
+    languageVoices: {
+      ...d.languageVoices,
+      ...(isObject(r.languageVoices) ? Object.fromEntries(Object.entries(r.languageVoices).filter(([, v]) => typeof v === 'string')) : {}),
+    },
+    persona: { ...fit(d.persona, persona), delivery: fit(d.persona.delivery, isObject(persona) ? persona.delivery : undefined) },
+    vad: fit(d.vad, r.vad),
+  };
+}
+
+function isObject(v: unknown): v is Record<string, any> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+/** `defaults` with every field of `raw` that has the same type (numbers must be finite). */
+function fit<T extends object>(defaults: T, raw: unknown): T {
+  const out = { ...defaults };
+  if (!isObject(raw)) return out;
+  for (const k of Object.keys(defaults) as Array<keyof T & string>) {
+    const v = raw[k];
+    if (typeof v === typeof defaults[k] && (typeof v !== 'number' || Number.isFinite(v))) out[k] = v;
+  }
+  return out;
+}
+
+function oneOf<T extends string>(v: unknown, allowed: readonly T[], fallback: T): T {
+  return allowed.includes(v as T) ? v as T : fallback;
+}
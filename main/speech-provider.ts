@@ -0,0 +1,69 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/**
+ * Speech-synthesis provider interface used by GdmLiveAudio.azureSpeak.
+ * A provider turns text into (optionally) raw PCM audio plus timed viseme
+ * and word-boundary events; offsets are relative to the first audio sample.
+ */
+
+export interface VisemeEvent { offsetMs: number; id: number }
+export interface WordBoundaryEvent { offsetMs: number; durationMs: number; text: string }
+
+export interface SpeechEvents {
+  /** Raw PCM16 mono chunk at `provider.sampleRate` (only when sampleRate > 0). */
+  onAudio?(chunk: ArrayBuffer): void;
+  onViseme?(e: VisemeEvent): void;
+  onWordBoundary?(e: WordBoundaryEvent): void;
+  /** Audio starts; for self-playing providers this is the viseme time base. */
+  onStart?(): void;
+  /** Synthesis finished (audio may still be playing for PCM providers). */
+  onEnd?(): void;
+  onError?(message: string): void;
+}
+
+export interface SpeechRequest {
+  text: string;
+  voice?: string;
+  /** Full SSML document; only used by providers with `supportsSsml` (others speak `text`). */
+  ssml?: string;
+}
+
+export interface SpeechUtterance { cancel(): void }
+
+export interface SpeechProvider {
+  readonly name: string;
+  /** PCM rate of `onAudio` chunks; 0 when the provider plays audio itself. */
+  readonly sampleRate: number;
+  readonly supportsSsml: boolean;
+  /** Returns why the provider cannot speak right now, or '' when ready. */
+  unavailableReason(): string;
+  speak(req: SpeechRequest, events: SpeechEvents): SpeechUtterance;
+}
+
+export type SpeechProviderKind = 'azure' | 'webspeech' | 'mock';
+
+export const SPEECH_PROVIDERS: Array<{ kind: SpeechProviderKind; label: string }> = [
+  { kind: 'azure', label: 'Azure Speech' },
+  { kind: 'webspeech', label: 'Browser (Web Speech API)' },
+  { kind: 'mock', label: 'Mock (offline, deterministic)' },
+];
+
+/* ---------- Letter -> Azure viseme id (rough, for providers without visemes) ---------- */
+const LETTER_VISEMES: Record<string, number> = {
+  a: 2, e: 4, i: 6, y: 6, o: 8, u: 7, w: 7,
+  h: 12, r: 13, l: 14,
+  s: 15, z: 15, c: 15, j: 16,
+  f: 18, v: 18,
+  d: 19, t: 19, n: 19,
+  k: 20, g: 20, q: 20, x: 20,
+  p: 21, b: 21, m: 21,
+};
+
+/** Viseme id for a single character: 0 for whitespace/punctuation, 1 for unknown letters. */
+export function visemeForChar(ch: string): number {
+  const id = LETTER_VISEMES[ch.toLowerCase()];
+  if (id !== undefined) return id;
+  return /[\p{L}\p{N}]/u.test(ch) ? 1 : 0;
+}
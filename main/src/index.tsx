@@ -11,6 +11,7 @@ import { GoogleGenAI, Modality, type Session, type LiveServerMessage } from '@go
 import { LitElement, css, html } from 'lit';
 import { customElement, state } from 'lit/decorators.js';
 import { createBlob } from './utils.ts';
+import { MicCapture } from '../mic-capture.ts';
 import './visual-mascot';
 
 declare global {
@@ -33,11 +34,8 @@ export class GdmLiveAudio extends LitElement {
   private ai!: GoogleGenAI;
   private session!: Session;
 
-  // 16 kHz mono input for Live API
-  private inputAC = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-  private micStream?: MediaStream;
-  private src?: MediaStreamAudioSourceNode;
-  private proc?: ScriptProcessorNode;
+  // Mic via AudioWorklet (native rate in, 16 kHz mono out for Live API)
+  private mic = new MicCapture();
 
   // ---------- Azure TTS + Visemes ----------
   @state() private azureKey = '';
@@ -168,21 +166,13 @@ export class GdmLiveAudio extends LitElement {
   private async startRecording() {
     if (this.isRecording) return;
     try {
-      await this.inputAC.resume();
-      this.micStream = await navigator.mediaDevices.getUserMedia({ audio: true, video: false });
-      this.src = this.inputAC.createMediaStreamSource(this.micStream);
-
-      const bufferSize = 256;
-      this.proc = this.inputAC.createScriptProcessor(bufferSize, 1, 1);
-      this.proc.onaudioprocess = (ev) => {
-        if (!this.isRecording) return;
-        const pcm = ev.inputBuffer.getChannelData(0);
-        // Send raw 16 kHz PCM as Blob — supported by Live API client
-        this.session?.sendRealtimeInput?.({ media: createBlob(pcm) });
-      };
-
-      this.src.connect(this.proc);
-      this.proc.connect(this.inputAC.destination);
+      await this.mic.start({
+        onFrame: (pcm) => {
+          if (!this.isRecording) return;
+          // Send raw 16 kHz PCM as Blob — supported by Live API client
+          this.session?.sendRealtimeInput?.({ media: createBlob(pcm) });
+        },
+      }, null);
 
       this.isRecording = true;
       this.updateStatus('🎤 Recording — speak now');
@@ -194,15 +184,10 @@ export class GdmLiveAudio extends LitElement {
   }
 
   private stopRecording() {
+    this.mic.stop();
     if (!this.isRecording) return;
     this.isRecording = false;
 
-    this.proc?.disconnect(); this.proc = undefined;
-    this.src?.disconnect();  this.src = undefined;
-
-    this.micStream?.getTracks().forEach(t => t.stop());
-    this.micStream = undefined;
-
     this.updateStatus('⏸️ Stopped');
   }
 
@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/**
+ * Minimal SSML builder for Azure Speech. Consecutive runs with the same voice
+ * and style share one <voice>; inside a multilingual voice, runs in another
+ * language are wrapped in <lang xml:lang>. Delivery adds <prosody> (rate,
+ * pitch, volume) and <mstts:express-as> speaking styles.
+ */
+import { isMultilingualVoice, voiceLocale } from './language-voices.ts';
+
+/** Azure speaking styles (support varies per voice; unsupported styles are ignored by the service). */
+export const SPEAKING_STYLES = [
+  'cheerful', 'empathetic', 'calm', 'friendly', 'excited', 'hopeful',
+  'sad', 'whispering', 'newscast', 'customerservice', 'chat', 'assistant',
+];
+
+export interface Delivery {
+  rate: number;           // % relative to the voice default (-50 .. +100)
+  pitch: number;          // % relative (-50 .. +50)
+  volume: number;         // % relative (-50 .. +50)
+  style: string;          // default mstts:express-as style ('' = none)
+  styleDegree: number;    // style intensity 0.01 .. 2
+  styleTags: boolean;     // let Gemini switch styles with [style] tags
+}
+
+export const DEFAULT_DELIVERY: Delivery = { rate: 0, pitch: 0, volume: 0, style: '', styleDegree: 1, styleTags: false };
+
+export interface SsmlRun {
+  voice: string;
+  lang: string;           // BCP-47 locale of the text, e.g. 'ta-IN' ('' = the voice's own)
+  style?: string;         // overrides the delivery style ('neutral' = none)
+  text: string;
+}
+
+/** Whether the delivery changes anything plain text can't express. */
+export function hasDelivery(d: Delivery) {
+  return !!(d.rate || d.pitch || d.volume || d.style);
+}
+
+const pct = (v: number) => `${v >= 0 ? '+' : ''}${Math.round(v)}%`;
+
+export function escapeXml(s: string) {
+  return s.replace(/[<>&'"]/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' })[c]!);
+}
+
+export function buildSsml(runs: SsmlRun[], delivery: Delivery = DEFAULT_DELIVERY): string {
+  const groups: SsmlRun[][] = [];
+  for (const r of runs) {
+    const last = groups[groups.length - 1];
+    if (last && last[0].voice === r.voice && last[0].style === r.style) last.push(r); else groups.push([r]);
+  }
+  const prosody = delivery.rate || delivery.pitch || delivery.volume
+    ? `<prosody rate="${pct(delivery.rate)}" pitch="${pct(delivery.pitch)}" volume="${pct(delivery.volume)}">` : '';
+  const rootLang = voiceLocale(runs[0]?.voice ?? '') || 'en-US';
+  const body = groups.map(g => {
+    const voice = g[0].voice;
+    const own = voiceLocale(voice);
+    let inner = g.map(r => r.lang && r.lang !== own && isMultilingualVoice(voice)
+      ? `<lang xml:lang="${r.lang}">${escapeXml(r.text)}</lang>`
+      : escapeXml(r.text)).join('');
+    if (prosody) inner = `${prosody}${inner}</prosody>`;
+    const style = g[0].style ?? delivery.style;
+    if (style && style !== 'neutral') {
+      inner = `<mstts:express-as style="${escapeXml(style)}" styledegree="${delivery.styleDegree}">${inner}</mstts:express-as>`;
+    }
+    return `<voice name="${escapeXml(voice)}">${inner}</voice>`;
+  }).join('');
+  return `<speak version="1.0" xmlns="http://www.w3.org/2001/10/synthesis" xmlns:mstts="https://www.w3.org/2001/mstts" xml:lang="${rootLang}">${body}</speak>`;
+}
+
@@ -0,0 +1,86 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/**
+ * Typed function-calling registry for the Live session. Tools are declared
+ * with plain JSON Schema; the registry turns them into Gemini function
+ * declarations for `live.connect`, runs them when a `toolCall` arrives and
+ * builds the `functionResponses` to send back.
+ */
+import { Type, type FunctionCall, type FunctionDeclaration, type FunctionResponse, type Schema, type Tool } from '@google/genai';
+
+export interface JsonSchema {
+  type: 'object' | 'string' | 'number' | 'integer' | 'boolean' | 'array';
+  description?: string;
+  enum?: string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+}
+
+export interface ToolDefinition<A = Record<string, unknown>> {
+  name: string;
+  description: string;
+  parameters?: JsonSchema;     // must be type 'object' when present
+  run(args: A): unknown | Promise<unknown>;
+}
+
+const TYPES: Record<JsonSchema['type'], Type> = {
+  object: Type.OBJECT, string: Type.STRING, number: Type.NUMBER,
+  integer: Type.INTEGER, boolean: Type.BOOLEAN, array: Type.ARRAY,
+};
+
+function toSchema(s: JsonSchema): Schema {
+  return {
+    type: TYPES[s.type],
+    description: s.description,
+    enum: s.enum,
+    required: s.required,
+    items: s.items && toSchema(s.items),
+    properties: s.properties && Object.fromEntries(Object.entries(s.properties).map(([k, v]) => [k, toSchema(v)])),
+  };
+}
+
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition<any>>();
+  private cancelled = new Set<string>();
+
+  register<A>(tool: ToolDefinition<A>) {
+    if (this.tools.has(tool.name)) throw new Error(`Tool "${tool.name}" already registered`);
+    this.tools.set(tool.name, tool);
+    return this;
+  }
+
+  get names() { return [...this.tools.keys()]; }
+
+  /** `tools` entry for the Live connect config (empty when nothing is registered). */
+  get declarations(): Tool[] {
+    if (!this.tools.size) return [];
+    const functionDeclarations: FunctionDeclaration[] = [...this.tools.values()].map(t => ({
+      name: t.name,
+      description: t.description,
+      parameters: t.parameters && toSchema(t.parameters),
+    }));
+    return [{ functionDeclarations }];
+  }
+
+  /** The server cancelled these calls (e.g. user interrupted); their results are dropped. */
+  cancel(ids: string[] = []) { for (const id of ids) this.cancelled.add(id); }
+
+  /** Run every call; failures become `{ error }` responses so the model can recover. */
+  async handle(calls: FunctionCall[] = []): Promise<FunctionResponse[]> {
+    const responses = await Promise.all(calls.map(async (call): Promise<FunctionResponse> => {
+      const tool = call.name ? this.tools.get(call.name) : undefined;
+      try {
+        if (!tool) throw new Error(`Unknown tool "${call.name}"`);
+        return { id: call.id, name: call.name, response: { output: await tool.run(call.args ?? {}) } };
+      } catch (e: any) {
+        return { id: call.id, name: call.name, response: { error: e?.message || String(e) } };
+      }
+    }));
+    const live = responses.filter(r => !(r.id && this.cancelled.has(r.id)));
+    for (const r of responses) if (r.id) this.cancelled.delete(r.id);
+    return live;
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { LitElement, css, html } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { downloadText } from './download.ts';
+import type { Transcript } from './transcript.ts';
+
+/** Threaded transcript view with JSON/Markdown export. Call requestUpdate() when the transcript changes. */
+@customElement('gdm-transcript-panel')
+export class GdmTranscriptPanel extends LitElement {
+  @property({ attribute: false }) transcript?: Transcript;
+  @state() private collapsed = false;
+
+  static styles = css`
+    :host {
+      position:fixed; left:16px; bottom:16px; width:min(36vw,440px); z-index:30;
+      font:13px system-ui,sans-serif;
+    }
+    .panel { background:#fafafa; border:1px solid #ddd; border-radius:12px; box-shadow:0 6px 24px rgba(0,0,0,.15); }
+    header { display:flex; gap:6px; align-items:center; padding:8px 10px; border-bottom:1px solid #eee; }
+    header b { flex:1; }
+    button { font:12px system-ui,sans-serif; padding:4px 8px; border-radius:6px; border:1px solid #ddd; background:#fff; cursor:pointer; }
+    .list { max-height:38vh; overflow:auto; padding:8px 10px; display:grid; gap:8px; }
+    .entry { display:grid; gap:2px; max-width:85%; }
+    .entry.user { justify-self:end; text-align:right; }
+    .meta { color:#888; font-size:11px; }
+    .bubble { padding:6px 10px; border-radius:10px; background:#e8eefc; white-space:pre-wrap; }
+    .entry.alfred .bubble { background:#eaf7ea; }
+    .empty { color:#999; padding:8px 0; }
+  `;
+
+  private exportAs(kind: 'json' | 'md') {
+    const t = this.transcript;
+    if (!t) return;
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    if (kind === 'json') downloadText(`alfred-transcript-${stamp}.json`, JSON.stringify(t.toJSON(), null, 2), 'application/json');
+    else downloadText(`alfred-transcript-${stamp}.md`, t.toMarkdown(), 'text/markdown');
+  }
+
+  protected updated() {
+    const list = this.renderRoot.querySelector('.list');
+    if (list) list.scrollTop = list.scrollHeight;
+  }
+
+  render() {
+    const entries = this.transcript?.entries ?? [];
+    return html`
+      <div class="panel">
+        <header>
+          <b>Transcript</b>
+          <button @click=${() => this.exportAs('json')}>JSON</button>
+          <button @click=${() => this.exportAs('md')}>Markdown</button>
+          <button @click=${() => this.transcript?.clear()}>Clear</button>
+          <button @click=${() => this.collapsed = !this.collapsed}>${this.collapsed ? '▴' : '▾'}</button>
+        </header>
+        ${this.collapsed ? null : html`
+          <div class="list">
+            ${entries.length ? entries.map(e => html`
+              <div class="entry ${e.role}">
+                <span class="meta">#${e.turn} · ${e.role === 'user' ? 'User' : 'Alfred'} · ${new Date(e.startedAt).toLocaleTimeString()}</span>
+                <span class="bubble">${e.text}</span>
+              </div>`) : html`<div class="empty">Nothing said yet.</div>`}
+          </div>`}
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'gdm-transcript-panel': GdmTranscriptPanel;
+  }
+}
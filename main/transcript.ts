@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/**
+ * Conversation transcript: user turns from Gemini input transcription,
+ * Alfred turns from the model text (or output transcription in audio mode).
+ * Streaming chunks for the same speaker and turn are merged into one entry.
+ */
+
+export type TranscriptRole = 'user' | 'alfred';
+
+export interface TranscriptEntry {
+  turn: number;
+  role: TranscriptRole;
+  text: string;
+  startedAt: number;   // epoch ms of the first chunk
+  endedAt: number;     // epoch ms of the last chunk
+}
+
+export class Transcript {
+  readonly entries: TranscriptEntry[] = [];
+  private open = new Set<TranscriptEntry>();
+
+  constructor(private onChange: () => void = () => {}) {}
+
+  /** Add a chunk; joins the open entry of the same role and turn. */
+  append(role: TranscriptRole, turn: number, text: string) {
+    if (!text) return;
+    const now = Date.now();
+    const last = [...this.open].find(e => e.role === role && e.turn === turn);
+    if (last) {
+      last.text += text;
+      last.endedAt = now;
+    } else {
+      const entry = { turn, role, text, startedAt: now, endedAt: now };
+      this.entries.push(entry);
+      this.open.add(entry);
+    }
+    this.onChange();
+  }
+
+  /** Stop merging into the open entries of `role` (all roles when omitted). */
+  close(role?: TranscriptRole) {
+    for (const e of [...this.open]) {
+      if (role && e.role !== role) continue;
+      e.text = e.text.trim();
+      this.open.delete(e);
+    }
+  }
+
+  clear() {
+    this.entries.length = 0;
+    this.open.clear();
+    this.onChange();
+  }
+
+  toJSON() {
+    return { exportedAt: new Date().toISOString(), entries: this.entries };
+  }
+
+  toMarkdown() {
+    const lines = [`# Alfred transcript — ${new Date().toLocaleString()}`, ''];
+    for (const e of this.entries) {
+      const who = e.role === 'user' ? 'User' : 'Alfred';
+      lines.push(`**#${e.turn} ${who}** _(${new Date(e.startedAt).toLocaleTimeString()})_`, '', e.text.trim(), '');
+    }
+    return lines.join('\n');
+  }
+}
@@ -23,16 +23,22 @@ function decode(base64) {
   return bytes;
 }
 
-function createBlob(data: Float32Array): Blob {
-  const l = data.length;
-  const int16 = new Int16Array(l);
-  for (let i = 0; i < l; i++) {
-    // convert float32 -1 to 1 to int16 -32768 to 32767
-    int16[i] = data[i] * 32768;
+function createBlob(data: Float32Array | Int16Array): Blob {
+  let int16: Int16Array;
+  if (data instanceof Int16Array) {
+    // already PCM16 (e.g. framed by the mic worklet)
+    int16 = data;
+  } else {
+    const l = data.length;
+    int16 = new Int16Array(l);
+    for (let i = 0; i < l; i++) {
+      // convert float32 -1 to 1 to int16 -32768 to 32767
+      int16[i] = data[i] * 32768;
+    }
   }
 
   return {
-    data: encode(new Uint8Array(int16.buffer)),
+    data: encode(new Uint8Array(int16.buffer, int16.byteOffset, int16.byteLength)),
     mimeType: 'audio/pcm;rate=16000',
   };
 }
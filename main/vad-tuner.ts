@@ -0,0 +1,83 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { LitElement, css, html } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import type { VadConfig } from './vad.ts';
+import type { VadLevel } from './mic-capture.ts';
+
+type NumericKey = Exclude<keyof VadConfig, 'adaptive'>;
+
+const SLIDERS: Array<{ key: NumericKey; label: string; min: number; max: number; step: number }> = [
+  { key: 'minThresh',  label: 'Min onset RMS',   min: 0.001, max: 0.05, step: 0.0005 },
+  { key: 'onsetRatio', label: 'Onset × floor',   min: 1.2,   max: 10,   step: 0.1 },
+  { key: 'hysteresis', label: 'Offset / onset',  min: 0.2,   max: 1,    step: 0.05 },
+  { key: 'startMinMs', label: 'Onset hold (ms)', min: 20,    max: 500,  step: 10 },
+  { key: 'endSilMs',   label: 'End silence (ms)', min: 100,  max: 2000, step: 25 },
+  { key: 'prerollMs',  label: 'Pre-roll (ms)',   min: 0,     max: 1000, step: 20 },
+  { key: 'adaptMs',    label: 'Floor adapt (ms)', min: 200,  max: 10000, step: 100 },
+];
+
+/**
+ * Runtime VAD tuning: sliders for every threshold plus a live meter of the
+ * mic level against the noise floor and onset/offset gates.
+ * Fires `vad-change` with a Partial<VadConfig> in `detail`.
+ */
+@customElement('gdm-vad-tuner')
+export class GdmVadTuner extends LitElement {
+  @property({ attribute: false }) config!: VadConfig;
+  /** Set directly by the owner at ~10 Hz; only this element rerenders. */
+  @property({ attribute: false }) level?: VadLevel;
+
+  static styles = css`
+    :host { display:block; font:12px system-ui,sans-serif; color:#ddd; }
+    .grid { display:grid; grid-template-columns:auto 1fr 4.5em; gap:4px 8px; align-items:center; }
+    input[type=range] { width:100%; }
+    .val { text-align:right; font-variant-numeric:tabular-nums; }
+    .meter { position:relative; height:10px; background:#111; border-radius:5px; margin:6px 0; overflow:hidden; }
+    .meter .rms { position:absolute; left:0; top:0; bottom:0; background:#4caf50; }
+    .meter .mark { position:absolute; top:0; bottom:0; width:2px; }
+    .floor { background:#888; } .onset { background:#ff5252; } .offset { background:#ffb300; }
+  `;
+
+  private emit(patch: Partial<VadConfig>) {
+    this.dispatchEvent(new CustomEvent('vad-change', { detail: patch, bubbles: true, composed: true }));
+  }
+
+  /** Log scale for the meter: 1e-4 .. 1e-1 RMS -> 0..100 %. */
+  private pct(v: number) {
+    return Math.max(0, Math.min(100, (Math.log10(Math.max(v, 1e-4)) + 4) / 3 * 100));
+  }
+
+  render() {
+    const c = this.config;
+    const l = this.level;
+    return html`
+      ${l ? html`
+        <div class="meter" title="rms ${l.rms.toFixed(4)} · floor ${l.floor.toFixed(4)} · onset ${l.onset.toFixed(4)}">
+          <div class="rms" style="width:${this.pct(l.rms)}%"></div>
+          <div class="mark floor"  style="left:${this.pct(l.floor)}%"></div>
+          <div class="mark offset" style="left:${this.pct(l.offset)}%"></div>
+          <div class="mark onset"  style="left:${this.pct(l.onset)}%"></div>
+        </div>` : null}
+      <div class="grid">
+        ${SLIDERS.map(s => html`
+          <label>${s.label}</label>
+          <input type="range" min=${s.min} max=${s.max} step=${s.step} .value=${String(c[s.key])}
+            @input=${(e:any)=>this.emit({ [s.key]: Number(e.target.value) })} />
+          <span class="val">${c[s.key]}</span>`)}
+        <label>Adaptive floor</label>
+        <input type="checkbox" .checked=${c.adaptive} @change=${(e:any)=>this.emit({ adaptive: e.target.checked })} />
+        <span></span>
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'gdm-vad-tuner': GdmVadTuner;
+  }
+}
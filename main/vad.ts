@@ -0,0 +1,127 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/**
+ * Voice-activity detector on framed PCM16 with per-frame RMS.
+ *  - adaptive noise floor (tracks the room while nobody is speaking)
+ *  - hysteresis: onset gate = max(minThresh, floor * onsetRatio),
+ *    offset gate = onset gate * hysteresis (< 1 keeps trailing syllables)
+ *  - pre-roll: the frames before onset are handed over with speech-start,
+ *    so the first syllable isn't clipped
+ *
+ * No DOM/audio dependencies. The class is also inlined into the mic worklet
+ * via toString(), so it must stay self-contained (no module-level refs).
+ */
+
+export interface VadConfig {
+  minThresh: number;     // absolute RMS floor for the onset gate
+  onsetRatio: number;    // onset gate relative to the noise floor
+  hysteresis: number;    // offset gate = onset gate * hysteresis
+  startMinMs: number;    // how long above the onset gate before starting a turn
+  endSilMs: number;      // time below the offset gate to end a turn
+  prerollMs: number;     // audio kept before onset
+  adaptive: boolean;     // track the noise floor (off = fixed gate at minThresh)
+  adaptMs: number;       // noise-floor time constant
+}
+
+export const DEFAULT_VAD: VadConfig = {
+  minThresh: 0.0045,
+  onsetRatio: 3,
+  hysteresis: 0.6,
+  startMinMs: 120,
+  endSilMs: 350,
+  prerollMs: 300,
+  adaptive: true,
+  adaptMs: 1500,
+};
+
+export interface VadEvents {
+  onSpeechStart?(preroll: Int16Array[]): void;
+  /** Frame inside a speech segment (after the pre-roll). */
+  onFrame?(pcm: Int16Array, rms: number): void;
+  onSpeechEnd?(): void;
+}
+
+export class VoiceActivityDetector {
+  private config: VadConfig;
+  private active = false;
+  private voiceMs = 0;
+  private silenceMs = 0;
+  private floor = 0;
+  private preroll: Int16Array[] = [];
+  private prerollMs = 0;
+
+  constructor(config: VadConfig, private sampleRate: number, private events: VadEvents = {}) {
+    this.config = { ...config };
+  }
+
+  configure(config: Partial<VadConfig>) { Object.assign(this.config, config); }
+
+  get speaking() { return this.active; }
+  get noiseFloor() { return this.floor; }
+  get onsetThresh() {
+    const c = this.config;
+    return c.adaptive ? Math.max(c.minThresh, this.floor * c.onsetRatio) : c.minThresh;
+  }
+  get offsetThresh() { return this.onsetThresh * this.config.hysteresis; }
+
+  /** Feed one frame; returns 'start' / 'end' on a transition, else null. */
+  process(pcm: Int16Array, rms: number): 'start' | 'end' | null {
+    const c = this.config;
+    const frameMs = pcm.length / this.sampleRate * 1000;
+
+    if (!this.active) {
+      this.keepPreroll(pcm, frameMs);
+      const voiced = rms > this.onsetThresh;
+      this.voiceMs = voiced ? this.voiceMs + frameMs : 0;
+      if (!voiced) this.adaptFloor(rms, frameMs);
+
+      if (this.voiceMs < c.startMinMs) return null;
+      this.active = true;
+      this.silenceMs = 0;
+      const preroll = this.preroll;
+      this.preroll = [];
+      this.prerollMs = 0;
+      this.events.onSpeechStart?.(preroll);
+      return 'start';
+    }
+
+    this.events.onFrame?.(pcm, rms);
+    if (rms > this.offsetThresh) { this.silenceMs = 0; return null; }
+
+    this.silenceMs += frameMs;
+    if (this.silenceMs <= c.endSilMs) return null;
+    this.active = false;
+    this.voiceMs = 0;
+    this.silenceMs = 0;
+    this.events.onSpeechEnd?.();
+    return 'end';
+  }
+
+  reset() {
+    this.active = false;
+    this.voiceMs = 0;
+    this.silenceMs = 0;
+    this.preroll = [];
+    this.prerollMs = 0;
+  }
+
+  private keepPreroll(pcm: Int16Array, frameMs: number) {
+    this.preroll.push(pcm);
+    this.prerollMs += frameMs;
+    // keep at least startMinMs so the onset frames themselves are never lost
+    const keepMs = Math.max(this.config.prerollMs, this.config.startMinMs);
+    while (this.preroll.length > 1 && this.prerollMs - frameMs >= keepMs) {
+      this.preroll.shift();
+      this.prerollMs -= frameMs;
+    }
+  }
+
+  private adaptFloor(rms: number, frameMs: number) {
+    if (!this.floor) { this.floor = rms; return; }
+    // fall fast (room got quieter), rise slowly (sustained noise)
+    const tau = rms < this.floor ? this.config.adaptMs / 8 : this.config.adaptMs;
+    this.floor += (rms - this.floor) * Math.min(1, frameMs / tau);
+  }
+}
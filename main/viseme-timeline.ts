@@ -0,0 +1,125 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/**
+ * Viseme timeline: events are kept as offsets from the first audible sample
+ * and applied from a requestAnimationFrame loop against an audio clock
+ * (normally PcmaPlayer.now, i.e. AudioContext.currentTime). Nothing is
+ * scheduled with timers, so a throttled tab catches up instead of drifting,
+ * and clear()/seek()/pause() take effect immediately.
+ */
+
+interface TimedViseme { t: number; id: number } // seconds from origin
+
+export class VisemeTimeline {
+  private events: TimedViseme[] = [];
+  private cursor = 0;          // next event to apply
+  private current = -1;        // last applied viseme id
+  private clock?: () => number;
+  private origin = 0;          // clock time of offset 0
+  private pausedAt = -1;       // position while paused (-1 = running)
+  private raf = 0;
+
+  /** Anticipation: apply each viseme this many ms early so the shape is formed on the sound. */
+  leadMs = 0;
+
+  constructor(private apply: (id: number) => void) {}
+
+  /**
+   * Bind to a clock (seconds) and the clock time of offset 0. Events added
+   * before this are buffered and start playing once the timeline has a clock.
+   */
+  start(clock: () => number, origin = clock()) {
+    this.clock = clock;
+    this.origin = origin;
+    this.kick();
+  }
+
+  get started() { return !!this.clock; }
+
+  /** Current position in seconds from origin (0 before start). */
+  get position() {
+    if (this.pausedAt >= 0) return this.pausedAt;
+    return this.clock ? this.clock() - this.origin : 0;
+  }
+
+  get hasEvents() { return this.events.length > 0; }
+
+  /** Offset (ms) of the last event, or 0 when empty. */
+  get endMs() { return this.events.length ? this.events[this.events.length - 1].t * 1000 : 0; }
+
+  add(offsetMs: number, id: number) {
+    const ev = { t: offsetMs / 1000, id };
+    // events usually arrive in order; insert from the back
+    let i = this.events.length;
+    while (i > 0 && this.events[i - 1].t > ev.t) i--;
+    this.events.splice(i, 0, ev);
+    if (i < this.cursor) this.seek(this.position); // landed in the past: re-resolve
+    this.kick();
+  }
+
+  /** Append a viseme `tailMs` after the last event (e.g. close the mouth). */
+  close(tailMs: number, id = 0) { this.add(this.endMs + tailMs, id); }
+
+  /** Drop all events and detach from the clock (the mouth is left as is). */
+  clear() {
+    this.events = [];
+    this.cursor = 0;
+    this.current = -1;
+    this.clock = undefined;
+    this.pausedAt = -1;
+    this.stop();
+  }
+
+  /** Jump to `sec` from origin and apply the viseme active there. */
+  seek(sec: number) {
+    if (this.pausedAt >= 0) this.pausedAt = sec;
+    else if (this.clock) this.origin = this.clock() - sec;
+    this.cursor = 0;
+    while (this.cursor < this.events.length && this.events[this.cursor].t <= sec) this.cursor++;
+    const id = this.cursor ? this.events[this.cursor - 1].id : 0;
+    this.set(id);
+    this.kick();
+  }
+
+  pause() {
+    if (this.pausedAt >= 0) return;
+    this.pausedAt = this.position;
+    this.stop();
+  }
+
+  resume() {
+    if (this.pausedAt < 0) return;
+    const at = this.pausedAt;
+    this.pausedAt = -1;
+    if (this.clock) this.origin = this.clock() - at;
+    this.kick();
+  }
+
+  private set(id: number) {
+    if (id === this.current) return;
+    this.current = id;
+    this.apply(id);
+  }
+
+  private tick = () => {
+    this.raf = 0;
+    const pos = this.position + this.leadMs / 1000;
+    let id = -1;
+    while (this.cursor < this.events.length && this.events[this.cursor].t <= pos) id = this.events[this.cursor++].id;
+    if (id >= 0) this.set(id);
+    this.kick();
+  };
+
+  /** Run the rAF loop only while there is something left to apply. */
+  private kick() {
+    if (this.raf || !this.clock || this.pausedAt >= 0 || this.cursor >= this.events.length) return;
+    this.raf = requestAnimationFrame(this.tick);
+  }
+
+  private stop() {
+    if (this.raf) cancelAnimationFrame(this.raf);
+    this.raf = 0;
+  }
+}
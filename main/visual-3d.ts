@@ -0,0 +1,203 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { LitElement, css, html } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import * as THREE from 'three';
+import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
+import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass.js';
+import { UnrealBloomPass } from 'three/examples/jsm/postprocessing/UnrealBloomPass.js';
+import { OutputPass } from 'three/examples/jsm/postprocessing/OutputPass.js';
+import { RoomEnvironment } from 'three/examples/jsm/environments/RoomEnvironment.js';
+import { Analyser } from './analyser.ts';
+import { fs as backdropFS, vs as backdropVS } from './backdrop-shader.ts';
+import { vs as sphereVS } from './sphere-shader.ts';
+
+/** How the stage shows Alfred: mascot only, orb only, or the orb behind the mascot. */
+export type VisualsMode = '2d' | '3d' | 'layered';
+
+/**
+ * Audio-reactive orb: the sphere shader deforms an icosphere from mic input
+ * (inputData) and speech output (outputData) levels, over the gradient
+ * backdrop, with bloom. The camera orbits faster while either side is
+ * loud. Nodes may be swapped at any time (a new player per utterance);
+ * without a node that side rests. Rendering stops when disconnected.
+ */
+@customElement('gdm-live-audio-visuals-3d')
+export class GdmLiveAudioVisuals3D extends LitElement {
+  @property({ attribute: false }) inputNode?: AudioNode;
+  @property({ attribute: false }) outputNode?: AudioNode;
+
+  private inputAnalyser?: Analyser;
+  private outputAnalyser?: Analyser;
+  private renderer?: THREE.WebGLRenderer;
+  private composer?: EffectComposer;
+  private camera?: THREE.PerspectiveCamera;
+  private sphere?: THREE.Mesh;
+  private backdrop?: THREE.Mesh;
+  private resizeObserver?: ResizeObserver;
+  private rotation = new THREE.Vector3(0, 0, 0);
+  private prevTime = 0;
+  private raf = 0;
+
+  static styles = css`
+    :host { display:block; position:relative; overflow:hidden; }
+    canvas { position:absolute; inset:0; width:100% !important; height:100% !important; image-rendering:pixelated; }
+  `;
+
+  connectedCallback() {
+    super.connectedCallback();
+    // Moved in the DOM: everything was released on disconnect, start over
+    if (!this.hasUpdated) return;
+    this.inputAnalyser = this.analyse(this.inputNode);
+    this.outputAnalyser = this.analyse(this.outputNode);
+    this.init(this.renderRoot.querySelector('canvas')!);
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    cancelAnimationFrame(this.raf);
+    this.raf = 0;
+    this.resizeObserver?.disconnect();
+    this.resizeObserver = undefined;
+    this.inputAnalyser?.disconnect(); this.inputAnalyser = undefined;
+    this.outputAnalyser?.disconnect(); this.outputAnalyser = undefined;
+    this.composer?.dispose();
+    this.renderer?.dispose();
+    this.renderer = undefined;
+  }
+
+  protected willUpdate(changed: Map<PropertyKey, unknown>) {
+    if (changed.has('inputNode')) this.inputAnalyser = this.analyse(this.inputNode, this.inputAnalyser);
+    if (changed.has('outputNode')) this.outputAnalyser = this.analyse(this.outputNode, this.outputAnalyser);
+  }
+
+  private analyse(node?: AudioNode, prev?: Analyser) {
+    prev?.disconnect();
+    return node ? new Analyser(node) : undefined;
+  }
+
+  protected firstUpdated() {
+    this.init(this.renderRoot.querySelector('canvas')!);
+  }
+
+  private init(canvas: HTMLCanvasElement) {
+    const scene = new THREE.Scene();
+    scene.background = new THREE.Color(0x100c14);
+
+    const backdrop = new THREE.Mesh(
+      new THREE.IcosahedronGeometry(10, 5),
+      new THREE.RawShaderMaterial({
+        uniforms: { resolution: { value: new THREE.Vector2(1, 1) }, rand: { value: 0 } },
+        vertexShader: backdropVS,
+        fragmentShader: backdropFS,
+        glslVersion: THREE.GLSL3,
+      }),
+    );
+    backdrop.material.side = THREE.BackSide;
+    scene.add(backdrop);
+    this.backdrop = backdrop;
+
+    const camera = new THREE.PerspectiveCamera(75, 1, 0.1, 1000);
+    camera.position.set(2, -2, 5);
+    this.camera = camera;
+
+    const renderer = new THREE.WebGLRenderer({ canvas, antialias: false });
+    renderer.setPixelRatio(window.devicePixelRatio);
+    this.renderer = renderer;
+
+    // Lighting comes from a generated room environment (no HDR asset to ship)
+    const pmrem = new THREE.PMREMGenerator(renderer);
+    const envMap = pmrem.fromScene(new RoomEnvironment(), 0.04).texture;
+    pmrem.dispose();
+
+    const sphereMaterial = new THREE.MeshStandardMaterial({
+      color: 0x000010,
+      metalness: 0.5,
+      roughness: 0.1,
+      emissive: 0x000010,
+      emissiveIntensity: 1.5,
+      envMap,
+    });
+    sphereMaterial.onBeforeCompile = (shader: any) => {
+      shader.uniforms.time = { value: 0 };
+      shader.uniforms.inputData = { value: new THREE.Vector4() };
+      shader.uniforms.outputData = { value: new THREE.Vector4() };
+      sphereMaterial.userData.shader = shader;
+      shader.vertexShader = sphereVS;
+    };
+    const sphere = new THREE.Mesh(new THREE.IcosahedronGeometry(1, 10), sphereMaterial);
+    scene.add(sphere);
+    this.sphere = sphere;
+
+    const composer = new EffectComposer(renderer);
+    composer.addPass(new RenderPass(scene, camera));
+    composer.addPass(new UnrealBloomPass(new THREE.Vector2(1, 1), 5, 0.5, 0));
+    composer.addPass(new OutputPass());
+    this.composer = composer;
+
+    this.resizeObserver = new ResizeObserver(() => this.resize());
+    this.resizeObserver.observe(this);
+    this.resize();
+
+    this.prevTime = performance.now();
+    this.raf = requestAnimationFrame(() => this.frame());
+  }
+
+  private resize() {
+    const w = Math.max(1, this.clientWidth), h = Math.max(1, this.clientHeight);
+    const dpr = this.renderer?.getPixelRatio() ?? 1;
+    this.camera!.aspect = w / h;
+    this.camera!.updateProjectionMatrix();
+    (this.backdrop!.material as THREE.RawShaderMaterial).uniforms.resolution.value.set(w * dpr, h * dpr);
+    this.renderer!.setSize(w, h, false);
+    this.composer!.setSize(w, h);
+  }
+
+  private frame() {
+    this.raf = requestAnimationFrame(() => this.frame());
+    this.inputAnalyser?.update();
+    this.outputAnalyser?.update();
+    const input = this.inputAnalyser?.data ?? SILENCE;
+    const output = this.outputAnalyser?.data ?? SILENCE;
+
+    const t = performance.now();
+    const dt = (t - this.prevTime) / (1000 / 60);   // in 60 fps frames
+    this.prevTime = t;
+
+    (this.backdrop!.material as THREE.RawShaderMaterial).uniforms.rand.value = Math.random() * 10000;
+
+    const shader = (this.sphere!.material as THREE.MeshStandardMaterial).userData.shader;
+    if (shader) {
+      this.sphere!.scale.setScalar(1 + (0.2 * output[1]) / 255);
+
+      const f = 0.001;
+      this.rotation.x += (dt * f * 0.5 * output[1]) / 255;
+      this.rotation.z += (dt * f * 0.5 * input[1]) / 255;
+      this.rotation.y += (dt * f * 0.25 * (input[2] + output[2])) / 255;
+      const q = new THREE.Quaternion().setFromEuler(new THREE.Euler(this.rotation.x, this.rotation.y, this.rotation.z));
+      this.camera!.position.copy(new THREE.Vector3(0, 0, 5).applyQuaternion(q));
+      this.camera!.lookAt(this.sphere!.position);
+
+      shader.uniforms.time.value += (dt * 0.1 * output[0]) / 255;
+      shader.uniforms.inputData.value.set(input[0] / 255, (0.1 * input[1]) / 255, (10 * input[2]) / 255, 0);
+      shader.uniforms.outputData.value.set((2 * output[0]) / 255, (0.1 * output[1]) / 255, (10 * output[2]) / 255, 0);
+    }
+
+    this.composer!.render();
+  }
+
+  render() {
+    return html`<canvas></canvas>`;
+  }
+}
+
+const SILENCE = new Uint8Array(16);
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'gdm-live-audio-visuals-3d': GdmLiveAudioVisuals3D;
+  }
+}
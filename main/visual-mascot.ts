@@ -5,45 +5,200 @@
 
 import { LitElement, css, html } from 'lit';
 import { customElement, property, state } from 'lit/decorators.js';
+import { DEFAULT_MOUTH_MANIFEST, loadMouthManifest, resolveMouthSprite, type MouthManifest, type MouthSprite } from './mouth-manifest.ts';
+import { isExpression, type MascotExpression } from './expression.ts';
 
+export type MascotState = 'idle' | 'listening' | 'thinking' | 'speaking';
+
+const BLINK_MS = 150;
+const RELAX_MS = 4000;   // idle this long -> expression fades back to neutral
+const reducedMotion = () => window.matchMedia?.('(prefers-reduced-motion: reduce)').matches ?? false;
+
+/**
+ * Alfred: static body art + mouth sprites (visemes) + behaviour states.
+ * States layer CSS animations on the body (breathing bob, listening head
+ * tilt, thinking glance/sway with a thought bubble, speaking nod) and eyelid
+ * overlays for blinks. Expressions (brows, cheeks) are an SVG overlay
+ * whose strength follows the intensity. With prefers-reduced-motion the
+ * poses are held without animation and blinking is off.
+ */
 @customElement('gdm-live-audio-visuals-mascot')
 export class GdmLiveAudioVisualsMascot extends LitElement {
   /** These are still here so your existing app can pass the nodes if it wants. */
   @property({ attribute: false }) inputNode?: AudioNode;
   @property({ attribute: false }) outputNode?: AudioNode;
 
+  /** URL of the mouth sprite manifest (see mouth-manifest.ts); swap sets by changing it. */
+  @property() manifest = '/mouth/manifest.json';
+
+  /** Crossfade between consecutive mouth shapes, in ms (0 = hard cut). */
+  @property({ type: Number }) blendMs = 70;
+  /** Minimum time a shape stays up; shorter visemes are merged into the next one. */
+  @property({ type: Number }) minHoldMs = 50;
+
   /** Current Azure viseme id (0–21). */
   @state() private visemeId = 0;
+  @state() private activity: MascotState = 'idle';
+  @state() private blinking = false;
+  private blinkTimer?: number;
+  @state() private expression: MascotExpression = 'neutral';
+  @state() private expressionIntensity = 0;
+  private relaxTimer?: number;
+  @state() private mouth: MouthManifest = DEFAULT_MOUTH_MANIFEST;
+  private broken = new Set<string>(); // sprite names whose image failed to load
+  private manifestSeq = 0;
+
+  // Two stacked mouth layers; `front` fades in over the other one
+  private layers: HTMLImageElement[] = [];
+  private front = 0;
+  private lastChange = 0;             // performance.now() of the last shape change
+  private holdTimer?: number;
+  private blendRaf = 0;
+
+  /** Behaviour state, driven by GdmLiveAudio from VAD and turn events. */
+  public setState(s: MascotState) {
+    if (s === this.activity) return;
+    this.activity = s;
+    // Acknowledge the visitor: blink as soon as Alfred starts listening
+    if (s === 'listening') this.blink();
+    clearTimeout(this.relaxTimer);
+    if (s === 'idle') this.relaxTimer = window.setTimeout(() => this.setExpression('neutral'), RELAX_MS);
+  }
+
+  /** Facial expression; unknown names fall back to neutral. Intensity 0..1. */
+  public setExpression(name: string, intensity = 1) {
+    this.expression = isExpression(name) ? name : 'neutral';
+    this.expressionIntensity = this.expression === 'neutral' ? 0 : Math.max(0, Math.min(1, intensity));
+  }
 
   /** Public API called by the Azure test panel (or anything else). */
   public setViseme(id: number) {
+    clearTimeout(this.holdTimer);
+    this.holdTimer = undefined;
+    if (id === this.visemeId) return;
+
+    // Too soon after the last change: hold; only the latest request survives
+    const wait = this.lastChange + this.minHoldMs - performance.now();
+    if (wait > 0) { this.holdTimer = window.setTimeout(() => this.setViseme(id), wait); return; }
+
     this.visemeId = id;
-    const img = this.renderRoot.querySelector<HTMLImageElement>('#mouth');
-    if (!img) return;
-    img.src = this.spriteForViseme(id);
-  }
-
-  /** Bucket 22 Azure visemes into 4 temporary sprites for this test. */
-  private spriteForViseme(id: number): string {
-    // Rough groupings; we’ll split these per-ID later with your final art set.
-    // Azure returns 22 visemes; 0 is silence; IDs like 7/8 are rounded “O/U”; 21 is P/B/M (closed). :contentReference[oaicite:4]{index=4}
-    const closed = '/mouth/closed.png';
-    const o      = '/mouth/o.png';
-    const narrow = '/mouth/narrow.png';
-    const wide   = '/mouth/wide.png';
-
-    const O_IDS       = new Set([7, 8]);
-    const WIDE_IDS    = new Set([2, 3, 9, 10, 11]);       // AA/AW/AI-ish
-    const CLOSED_IDS  = new Set([0, 21]);                 // silence, P/B/M
-    const NARROW_IDS  = new Set([
-      1,4,5,6,12,13,14,15,16,17,18,19,20
-    ]); // everything else for now
-
-    if (O_IDS.has(id)) return o;
-    if (WIDE_IDS.has(id)) return wide;
-    if (CLOSED_IDS.has(id)) return closed;
-    if (NARROW_IDS.has(id)) return narrow;
-    return narrow;
+    this.lastChange = performance.now();
+    this.crossfade(this.spriteForViseme(id));
+  }
+
+  /**
+   * Continuous mouth opening (0..1) from audio-driven lip sync, applied as a
+   * vertical scale on top of the sprite; null returns to the sprite's own shape.
+   */
+  public setOpenness(v: number | null) {
+    const mouth = this.renderRoot.querySelector<HTMLElement>('.mouth');
+    if (!mouth) return;
+    if (v === null) mouth.style.removeProperty('--mouth-open');
+    else mouth.style.setProperty('--mouth-open', (0.55 + 0.65 * Math.max(0, Math.min(1, v))).toFixed(3));
+  }
+
+  /** Put `sprite` on the back layer and blend it in with weighted opacity. */
+  private crossfade(sprite: MouthSprite) {
+    if (!this.layers.length) return; // first render picks up visemeId
+    const prev = this.layers[this.front];
+    this.front = 1 - this.front;
+    const next = this.layers[this.front];
+    this.place(next, sprite);
+
+    cancelAnimationFrame(this.blendRaf);
+    const prevFrom = Number(prev.style.opacity || 1);
+    const nextFrom = Number(next.style.opacity || 0);
+    const t0 = performance.now();
+    const step = () => {
+      const w = this.blendMs > 0 ? Math.min(1, (performance.now() - t0) / this.blendMs) : 1;
+      next.style.opacity = String(nextFrom + (1 - nextFrom) * w);
+      prev.style.opacity = String(prevFrom * (1 - w));
+      this.blendRaf = w < 1 ? requestAnimationFrame(step) : 0;
+    };
+    step();
+  }
+
+  private place(img: HTMLImageElement, sprite: MouthSprite) {
+    if (img.getAttribute('src') !== sprite.src) img.src = sprite.src;
+    img.style.transform = this.spriteTransform(sprite);
+  }
+
+  /** Re-resolve the visible shape (manifest swapped or a sprite failed to load). */
+  private refreshMouth() {
+    if (this.layers.length) this.place(this.layers[this.front], this.spriteForViseme(this.visemeId));
+  }
+
+  /** Load a sprite manifest at runtime; on failure the current set stays. */
+  public async loadManifest(url: string) {
+    const seq = ++this.manifestSeq;
+    try {
+      const m = await loadMouthManifest(url);
+      if (seq !== this.manifestSeq) return;
+      this.broken = new Set();
+      this.mouth = m;
+      this.refreshMouth();
+      this.preload(m);
+    } catch (e) {
+      console.warn('[mascot] mouth manifest not loaded, keeping current sprites', e);
+    }
+  }
+
+  connectedCallback() {
+    super.connectedCallback();
+    this.scheduleBlink();
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    clearTimeout(this.blinkTimer);
+    this.blinkTimer = undefined;
+    clearTimeout(this.relaxTimer);
+  }
+
+  /** Random blinks every 2.5–6 s (none while thinking: the lids are lowered). */
+  private scheduleBlink() {
+    clearTimeout(this.blinkTimer);
+    this.blinkTimer = window.setTimeout(() => {
+      if (this.activity !== 'thinking') this.blink();
+      this.scheduleBlink();
+    }, 2500 + Math.random() * 3500);
+  }
+
+  private blink() {
+    if (reducedMotion() || this.blinking) return;
+    this.blinking = true;
+    setTimeout(() => { this.blinking = false; }, BLINK_MS);
+  }
+
+  protected firstUpdated() {
+    this.layers = [...this.renderRoot.querySelectorAll<HTMLImageElement>('.mouth img')];
+    this.layers[1].style.opacity = '0';
+    this.refreshMouth();
+  }
+
+  protected updated(changed: Map<PropertyKey, unknown>) {
+    if (changed.has('manifest') && this.manifest) this.loadManifest(this.manifest);
+  }
+
+  /** Probe every sprite once so missing art falls back instead of showing a broken image. */
+  private preload(m: MouthManifest) {
+    for (const [name, sprite] of Object.entries(m.sprites)) {
+      const img = new Image();
+      img.onerror = () => {
+        if (this.mouth !== m) return;
+        this.broken.add(name);
+        this.refreshMouth();
+      };
+      img.src = sprite.src;
+    }
+  }
+
+  private spriteForViseme(id: number): MouthSprite {
+    return resolveMouthSprite(this.mouth, id, this.broken);
+  }
+
+  private spriteTransform(s: MouthSprite) {
+    return `translate(${s.dx ?? 0}%, ${s.dy ?? 0}%) scale(${s.scale ?? 1})`;
   }
 
   static styles = css`
@@ -57,6 +212,104 @@ export class GdmLiveAudioVisualsMascot extends LitElement {
       width: min(320px, 60vw);
       user-select: none;
     }
+
+    /* ---------- Behaviour: .pose tilts/sways, .body breathes/nods ---------- */
+    .pose {
+      position: relative;
+      transform-origin: 50% 100%;
+      transition: transform 400ms ease-out;
+    }
+    .body {
+      position: relative;
+      transform-origin: 50% 100%;
+      animation: breathe 4.2s ease-in-out infinite;
+    }
+    .listening .pose { transform: rotate(-2.5deg) translateX(-1%); }
+    .thinking .pose { animation: glance 3.2s ease-in-out infinite; }
+    .speaking .body { animation: breathe 4.2s ease-in-out infinite, nod 1.3s ease-in-out infinite; }
+    @keyframes breathe { 0%, 100% { translate: 0 0; } 50% { translate: 0 -0.8%; } }
+    @keyframes nod { 0%, 100% { rotate: 0deg; } 50% { rotate: 0.8deg; } }
+    @keyframes glance {
+      0%, 100% { transform: rotate(1.5deg) translateX(1%); }
+      45%, 55% { transform: rotate(-1deg) translateX(-0.5%); }
+    }
+
+    .lid {
+      position: absolute;
+      top: var(--eyes-top, 15.5%);
+      width: var(--eye-width, 12%);
+      height: var(--eye-height, 8%);
+      background: var(--lid-color, #f1c0a0);
+      border-radius: 50% 50% 45% 45%;
+      transform: translateX(-50%) scaleY(0);
+      transform-origin: 50% 0;
+      transition: transform 70ms ease-in;
+      pointer-events: none;
+    }
+    .lid.left { left: var(--eye-left, 37.6%); }
+    .lid.right { left: var(--eye-right, 62%); }
+    .blink .lid { transform: translateX(-50%) scaleY(1); }
+    .thinking .lid { transform: translateX(-50%) scaleY(0.35); transition-duration: 300ms; }
+
+    .bubble {
+      position: absolute;
+      left: 78%;
+      top: 2%;
+      display: flex;
+      gap: 4px;
+      padding: 6px 9px;
+      border-radius: 999px;
+      background: #fff;
+      box-shadow: 0 2px 8px rgba(0,0,0,.18);
+      opacity: 0;
+      transition: opacity 250ms;
+    }
+    .bubble i {
+      width: 6px; height: 6px; border-radius: 50%; background: #666;
+      animation: dot 1.2s ease-in-out infinite;
+    }
+    .bubble i:nth-child(2) { animation-delay: .15s; }
+    .bubble i:nth-child(3) { animation-delay: .3s; }
+    .thinking .bubble { opacity: 1; }
+    @keyframes dot { 0%, 60%, 100% { transform: translateY(0); opacity: .5; } 30% { transform: translateY(-3px); opacity: 1; } }
+
+    /* ---------- Expression overlay (viewBox matches the 218×450 body art) ---------- */
+    .face {
+      position: absolute;
+      inset: 0;
+      width: 100%;
+      height: 100%;
+      pointer-events: none;
+      overflow: visible;
+    }
+    .face .brow {
+      fill: none;
+      stroke: var(--brow-color, #3a2a20);
+      stroke-width: 3.5;
+      stroke-linecap: round;
+      opacity: 0;
+      transform-box: view-box;
+      transition: opacity 250ms, transform 250ms ease-out;
+    }
+    .face .cheek {
+      fill: var(--cheek-color, #ff8a9a);
+      opacity: 0;
+      transition: opacity 250ms;
+    }
+    /* Left brow pivots on its outer end (64,64), right on (154,64) */
+    .face .brow.left { transform-origin: 64px 64px; }
+    .face .brow.right { transform-origin: 154px 64px; }
+    .happy .brow { opacity: calc(var(--expr) * .7); transform: translateY(calc(var(--expr) * -2px)); }
+    .happy .cheek { opacity: calc(var(--expr) * .45); }
+    .surprised .brow { opacity: var(--expr); transform: translateY(calc(var(--expr) * -7px)); }
+    .concerned .brow { opacity: var(--expr); }
+    .concerned .brow.left { transform: translateY(calc(var(--expr) * 2px)) rotate(calc(var(--expr) * -12deg)); }
+    .concerned .brow.right { transform: translateY(calc(var(--expr) * 2px)) rotate(calc(var(--expr) * 12deg)); }
+
+    @media (prefers-reduced-motion: reduce) {
+      .pose, .body, .bubble i { animation: none !important; }
+      .pose, .lid, .bubble, .face * { transition: none !important; }
+    }
     .mascot {
       width: 100%;
       display: block;
@@ -67,15 +320,18 @@ export class GdmLiveAudioVisualsMascot extends LitElement {
       left: var(--mouth-left, 50%);
       top:  var(--mouth-top, 34%);
       width: var(--mouth-width, 42%);
-      transform: translate(-50%, -50%);
+      transform: translate(-50%, -50%) scaleY(var(--mouth-open, 1));
       pointer-events: none;
     }
     .mouth img {
       width: 100%;
       display: block;
-      transition: opacity 60ms linear;
       will-change: opacity;
     }
+    .mouth img + img {
+      position: absolute;
+      inset: 0;
+    }
     .badge {
       position: absolute;
       right: 8px;
@@ -89,14 +345,30 @@ export class GdmLiveAudioVisualsMascot extends LitElement {
   `;
 
   render() {
+    // Mouth layer src/opacity are driven imperatively (crossfade), not bound here
     return html`
-      <div class="wrap">
-        <img class="mascot" alt="Alfred mascot"
-             src="/mascot/Alfred_Mascot.png" />
-        <div class="mouth" aria-hidden="true">
-          <img id="mouth" src=${this.spriteForViseme(this.visemeId)} />
+      <div class="wrap ${this.activity} ${this.expression} ${this.blinking ? 'blink' : ''}"
+           style="--expr:${this.expressionIntensity.toFixed(2)}">
+        <div class="pose">
+          <div class="body">
+            <img class="mascot" alt="Alfred mascot"
+                 src="/mascot/Alfred_Mascot.png" />
+            <div class="lid left" aria-hidden="true"></div>
+            <div class="lid right" aria-hidden="true"></div>
+            <svg class="face" viewBox="0 0 218 450" aria-hidden="true">
+              <ellipse class="cheek" cx="62" cy="112" rx="11" ry="6"></ellipse>
+              <ellipse class="cheek" cx="156" cy="112" rx="11" ry="6"></ellipse>
+              <path class="brow left" d="M64 64 Q80 56 98 62"></path>
+              <path class="brow right" d="M120 62 Q138 56 154 64"></path>
+            </svg>
+            <div class="mouth" aria-hidden="true">
+              <img alt="" />
+              <img alt="" />
+            </div>
+            <div class="bubble" aria-hidden="true"><i></i><i></i><i></i></div>
+          </div>
         </div>
-        <div class="badge">viseme: ${this.visemeId}</div>
+        <div class="badge">${this.activity}${this.expression !== 'neutral' ? ` · ${this.expression}` : ''} · viseme: ${this.visemeId}</div>
       </div>
     `;
   }
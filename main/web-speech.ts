@@ -0,0 +1,57 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/**
+ * Browser Web Speech API provider. The browser plays the audio itself, so no
+ * PCM is emitted; visemes are approximated from the letters of each word
+ * boundary, timed from `onStart`.
+ */
+import { visemeForChar, type SpeechEvents, type SpeechProvider, type SpeechRequest, type SpeechUtterance } from './speech-provider.ts';
+
+const MS_PER_CHAR = 65; // rough articulation rate at rate=1
+
+export class WebSpeechProvider implements SpeechProvider {
+  readonly name = 'Web Speech';
+  readonly sampleRate = 0;
+  readonly supportsSsml = false;
+
+  unavailableReason() {
+    return 'speechSynthesis' in window ? '' : 'Web Speech API not supported in this browser';
+  }
+
+  speak(req: SpeechRequest, events: SpeechEvents): SpeechUtterance {
+    const synth = window.speechSynthesis;
+    const u = new SpeechSynthesisUtterance(req.text);
+
+    // Azure-style names ("en-US-JennyNeural") -> match by language tag
+    const lang = req.voice?.match(/^[a-z]{2,3}-[A-Z]{2}/)?.[0];
+    if (lang) {
+      u.lang = lang;
+      const voice = synth.getVoices().find(v => v.lang === lang);
+      if (voice) u.voice = voice;
+    }
+
+    let cancelled = false;
+    let t0 = 0;
+    u.onstart = () => { t0 = performance.now(); events.onStart?.(); };
+    u.onboundary = (e) => {
+      if (cancelled || e.name !== 'word') return;
+      const word = req.text.slice(e.charIndex, e.charIndex + (e.charLength || wordLength(req.text, e.charIndex)));
+      const offsetMs = performance.now() - t0;
+      events.onWordBoundary?.({ offsetMs, durationMs: word.length * MS_PER_CHAR, text: word });
+      [...word].forEach((ch, i) => events.onViseme?.({ offsetMs: offsetMs + i * MS_PER_CHAR, id: visemeForChar(ch) }));
+      events.onViseme?.({ offsetMs: offsetMs + word.length * MS_PER_CHAR, id: 0 });
+    };
+    u.onend = () => { if (!cancelled) events.onEnd?.(); };
+    u.onerror = (e) => { if (!cancelled) events.onError?.(e.error); };
+
+    synth.speak(u);
+    return { cancel: () => { cancelled = true; synth.cancel(); } };
+  }
+}
+
+function wordLength(text: string, from: number) {
+  const m = /^[\p{L}\p{N}'’-]+/u.exec(text.slice(from));
+  return m ? m[0].length : 0;
+}